@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { AlertTriangle, Combine, Sparkles } from "lucide-react";
+import { AlignedPair, mergeAlignedPairs } from "@/utils/sentenceAligner";
+
+export interface PendingAlignment {
+  pairs: AlignedPair[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceFileName: string;
+  targetFileName: string;
+}
+
+interface AlignmentReviewDialogProps {
+  alignment: PendingAlignment | null;
+  // Omitted when no model is configured
+  onRefine?: (pairs: AlignedPair[], onProgress: (done: number, total: number) => void) => Promise<AlignedPair[]>;
+  onConfirm: (pairs: AlignedPair[]) => void;
+  onCancel: () => void;
+}
+
+const AlignmentReviewDialog: React.FC<AlignmentReviewDialogProps> = ({
+  alignment,
+  onRefine,
+  onConfirm,
+  onCancel
+}) => {
+  const [pairs, setPairs] = useState<AlignedPair[]>([]);
+  const [excluded, setExcluded] = useState<Set<AlignedPair>>(new Set());
+  const [onlyFlagged, setOnlyFlagged] = useState(false);
+  const [refineProgress, setRefineProgress] = useState<number | null>(null);
+
+  useEffect(() => {
+    setPairs(alignment?.pairs || []);
+    setExcluded(new Set());
+    setOnlyFlagged(false);
+    setRefineProgress(null);
+  }, [alignment]);
+
+  if (!alignment) return null;
+
+  const flaggedCount = pairs.filter(pair => pair.needsReview).length;
+  const usableCount = pairs.filter(pair => !excluded.has(pair) && pair.source.length > 0 && pair.target.length > 0).length;
+  const isRefining = refineProgress !== null;
+
+  const toggleExcluded = (pair: AlignedPair, include: boolean) => {
+    const next = new Set(excluded);
+    if (include) next.delete(pair);
+    else next.add(pair);
+    setExcluded(next);
+  };
+
+  const mergeWithNext = (index: number) => {
+    const merged = mergeAlignedPairs(pairs[index], pairs[index + 1]);
+    setPairs([...pairs.slice(0, index), merged, ...pairs.slice(index + 2)]);
+  };
+
+  const handleRefine = async () => {
+    if (!onRefine) return;
+    setRefineProgress(0);
+    try {
+      const refined = await onRefine(pairs, (done, total) => setRefineProgress(Math.floor((done / total) * 100)));
+      setPairs(refined);
+      setExcluded(new Set());
+    } finally {
+      setRefineProgress(null);
+    }
+  };
+
+  const handleConfirm = () => {
+    onConfirm(pairs.filter(pair => !excluded.has(pair)));
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isRefining && onCancel()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Review Sentence Alignment</DialogTitle>
+          <DialogDescription>
+            {alignment.sourceFileName} ({alignment.sourceLanguage}) aligned with {alignment.targetFileName} ({alignment.targetLanguage}):
+            {" "}{pairs.length.toLocaleString()} pairs, {flaggedCount.toLocaleString()} flagged for review.
+            Uncheck wrong pairs or merge a pair with the next one; pairs with an empty side are not used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="onlyFlagged" checked={onlyFlagged} onCheckedChange={setOnlyFlagged} />
+            <Label htmlFor="onlyFlagged">Show only flagged pairs</Label>
+          </div>
+          {onRefine && (
+            <Button variant="outline" size="sm" onClick={handleRefine} disabled={isRefining || flaggedCount === 0}>
+              <Sparkles className="h-4 w-4 mr-1" /> Re-align flagged pairs with the model
+            </Button>
+          )}
+        </div>
+        {isRefining && <Progress value={refineProgress} className="h-2" />}
+
+        <div className="max-h-[50vh] overflow-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                <th className="w-10 px-2 py-1"></th>
+                <th className="px-2 py-1 text-left font-medium">Source</th>
+                <th className="px-2 py-1 text-left font-medium">Target</th>
+                <th className="w-10 px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {pairs.map((pair, index) => {
+                if (onlyFlagged && !pair.needsReview) return null;
+                return (
+                  <tr key={index} className={`border-t align-top ${pair.needsReview ? "bg-amber-50" : ""}`}>
+                    <td className="px-2 py-1">
+                      <Checkbox
+                        checked={!excluded.has(pair)}
+                        onCheckedChange={(checked) => toggleExcluded(pair, checked === true)}
+                        disabled={isRefining}
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      {pair.needsReview && <AlertTriangle className="inline h-3 w-3 mr-1 text-amber-600" />}
+                      {pair.source.join(' ') || <span className="text-slate-400">(none)</span>}
+                    </td>
+                    <td className="px-2 py-1">
+                      {pair.target.join(' ') || <span className="text-slate-400">(none)</span>}
+                    </td>
+                    <td className="px-2 py-1">
+                      {index < pairs.length - 1 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => mergeWithNext(index)}
+                          disabled={isRefining}
+                          title="Merge with the next pair"
+                        >
+                          <Combine className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isRefining}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={isRefining || usableCount === 0}>
+            Use {usableCount.toLocaleString()} pairs
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlignmentReviewDialog;
@@ -1,30 +1,55 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useToast } from "@/components/ui/use-toast";
+import { LlmModel, ProviderId, QuotaInfo, RecordingMode } from "@/utils/llmProvider";
+import { PROVIDERS, resolveProvider } from "@/utils/providerRegistry";
+import { HealthCheckResult, checkProviderHealth } from "@/utils/providerHealth";
+import { ERROR_KIND_LABELS, toApiError } from "@/utils/apiErrors";
+import RecordingControls from "./RecordingControls";
 
 interface ApiKeyCardProps {
+  providerId: ProviderId;
+  onProviderChange: (providerId: ProviderId) => void;
+  // Endpoint of an OpenAI-compatible service, for providers that allow one
+  baseUrl: string;
+  setBaseUrl: (url: string) => void;
   apiKey: string;
   setApiKey: (key: string) => void;
+  recordingMode: RecordingMode;
+  onRecordingModeChange: (mode: RecordingMode) => void;
   selectedModel: string;
   setSelectedModel: (model: string) => void;
   isApiKeyValid: boolean;
   isLoadingModels: boolean;
-  availableModels: Array<{
-    name: string;
-    displayName: string;
-    description?: string;
-  }>;
+  availableModels: LlmModel[];
   validateApiKey: (key: string) => void;
 }
 
+const describeQuota = (quota?: QuotaInfo): string => {
+  if (!quota) return "not reported by this API";
+  const parts: string[] = [];
+  if (quota.requestsRemaining !== undefined) {
+    parts.push(`${quota.requestsRemaining.toLocaleString()}${quota.requestsLimit ? ` of ${quota.requestsLimit.toLocaleString()}` : ""} requests`);
+  }
+  if (quota.tokensRemaining !== undefined) {
+    parts.push(`${quota.tokensRemaining.toLocaleString()}${quota.tokensLimit ? ` of ${quota.tokensLimit.toLocaleString()}` : ""} tokens`);
+  }
+  return `${parts.join(" and ")} left in the current window`;
+};
+
 const ApiKeyCard: React.FC<ApiKeyCardProps> = ({
+  providerId,
+  onProviderChange,
+  baseUrl,
+  setBaseUrl,
   apiKey,
   setApiKey,
+  recordingMode,
+  onRecordingModeChange,
   selectedModel,
   setSelectedModel,
   isApiKeyValid,
@@ -32,21 +57,86 @@ const ApiKeyCard: React.FC<ApiKeyCardProps> = ({
   availableModels,
   validateApiKey
 }) => {
+  const [isTesting, setIsTesting] = useState(false);
+  const [health, setHealth] = useState<HealthCheckResult | null>(null);
+  const [healthError, setHealthError] = useState<string | null>(null);
+
+  // A result only holds for the settings it was tested with
+  useEffect(() => {
+    setHealth(null);
+    setHealthError(null);
+  }, [providerId, apiKey, baseUrl, recordingMode, selectedModel]);
+
+  const handleTestConnection = async () => {
+    setIsTesting(true);
+    setHealth(null);
+    setHealthError(null);
+    try {
+      setHealth(await checkProviderHealth({ providerId, apiKey, baseUrl, recordingMode }, selectedModel, { force: true }));
+    } catch (error) {
+      const apiError = toApiError(error);
+      setHealthError(`${ERROR_KIND_LABELS[apiError.kind]}: ${apiError.message}`);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
   const handleApiKeyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const key = e.target.value;
     setApiKey(key);
   };
 
+  // Replaying answers needs no key, so the card follows the provider as it will be called
+  const provider = resolveProvider({ providerId, apiKey, baseUrl, recordingMode });
+  const selectedModelInfo = availableModels.find(model => model.name === selectedModel);
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>Step 1: API Key Configuration</CardTitle>
-        <CardDescription>Enter your Google Gemini API key to get started</CardDescription>
+        <CardDescription>Choose a model provider and enter your API key to get started</CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
           <div className="grid gap-2">
-            <Label htmlFor="apiKey">Gemini API Key</Label>
+            <Label htmlFor="provider">Provider</Label>
+            <Select value={providerId} onValueChange={(value) => onProviderChange(value as ProviderId)}>
+              <SelectTrigger id="provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDERS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {provider.supportsBaseUrl && (
+            <div className="grid gap-2">
+              <Label htmlFor="baseUrl">API Base URL</Label>
+              <Input
+                id="baseUrl"
+                placeholder={provider.defaultBaseUrl}
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+              />
+              {provider.id === 'local' ? (
+                <p className="text-xs text-slate-500">
+                  Leave empty for Ollama on this machine. llama.cpp server usually listens on http://localhost:8080/v1
+                  and vLLM on http://localhost:8000/v1. The server must allow requests from this page, e.g. start
+                  Ollama with OLLAMA_ORIGINS set to this site's address. Nothing is sent to a cloud service.
+                </p>
+              ) : (
+                <p className="text-xs text-slate-500">
+                  Leave empty for OpenAI, or enter the endpoint of a compatible service such as Azure OpenAI, Mistral or OpenRouter
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="apiKey">{provider.requiresApiKey ? `${provider.label} API Key` : "API Key (optional)"}</Label>
             <div className="flex gap-2">
               <Input 
                 id="apiKey" 
@@ -57,27 +147,31 @@ const ApiKeyCard: React.FC<ApiKeyCardProps> = ({
                 className="flex-1"
               />
               <Button 
-                onClick={() => apiKey && validateApiKey(apiKey)}
-                disabled={!apiKey || apiKey.length < 30}
+                onClick={() => validateApiKey(apiKey)}
+                disabled={provider.requiresApiKey && (!apiKey || apiKey.length < provider.minApiKeyLength)}
               >
-                Validate
+                {provider.requiresApiKey ? "Validate" : "Connect"}
               </Button>
             </div>
             <div className="text-xs text-slate-500">
               <p>Your API key will not be stored permanently</p>
-              <p className="mt-1">Get your API key at: <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">https://aistudio.google.com/apikey</a></p>
+              {provider.apiKeyUrl && (
+                <p className="mt-1">Get your API key at: <a href={provider.apiKeyUrl} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">{provider.apiKeyUrl}</a></p>
+              )}
             </div>
           </div>
           
+          <RecordingControls recordingMode={recordingMode} onRecordingModeChange={onRecordingModeChange} />
+
           <div className="grid gap-2">
-            <Label htmlFor="model">Gemini Model</Label>
+            <Label htmlFor="model">Model</Label>
             <Select 
               disabled={!isApiKeyValid || isLoadingModels} 
               value={selectedModel} 
               onValueChange={setSelectedModel}
             >
               <SelectTrigger id="model">
-                <SelectValue placeholder={isLoadingModels ? "Loading models..." : "Select Gemini model"} />
+                <SelectValue placeholder={isLoadingModels ? "Loading models..." : `Select ${provider.label} model`} />
               </SelectTrigger>
               <SelectContent>
                 {availableModels.map(model => (
@@ -87,9 +181,47 @@ const ApiKeyCard: React.FC<ApiKeyCardProps> = ({
                 ))}
               </SelectContent>
             </Select>
+            {selectedModelInfo?.inputTokenLimit > 0 && (
+              <p className="text-xs text-slate-500">
+                Context window: {selectedModelInfo.inputTokenLimit.toLocaleString()} input tokens
+                {selectedModelInfo.outputTokenLimit > 0 && `, ${selectedModelInfo.outputTokenLimit.toLocaleString()} output tokens`}
+              </p>
+            )}
             {!isApiKeyValid && (
-              <p className="text-xs text-slate-500">Enter a valid API key to see available models</p>
+              <p className="text-xs text-slate-500">
+                {provider.requiresApiKey ? "Enter a valid API key to see available models" : "Connect to the server to see its models"}
+              </p>
+            )}
+          </div>
+
+          <div className="grid gap-2">
+            <div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleTestConnection}
+                disabled={!isApiKeyValid || !selectedModel || isTesting}
+              >
+                {isTesting ? "Testing..." : "Test connection"}
+              </Button>
+            </div>
+            {health && (
+              <div className="text-xs text-slate-600 space-y-1">
+                <p>Connected in {health.latencyMs.toLocaleString()} ms ({health.method}).</p>
+                <p>
+                  Model limits: {health.model?.inputTokenLimit
+                    ? `${health.model.inputTokenLimit.toLocaleString()} input tokens` +
+                      (health.model.outputTokenLimit ? `, ${health.model.outputTokenLimit.toLocaleString()} output tokens` : "")
+                    : "not reported by this API"}
+                </p>
+                <p>Quota: {describeQuota(health.quota)}</p>
+              </div>
             )}
+            {healthError && <p className="text-xs text-red-600">{healthError}</p>}
+            <p className="text-xs text-slate-500">
+              Looks the model up without generating anything, so the test costs no tokens. Extractions run the
+              same check and reuse a result from the last ten minutes.
+            </p>
           </div>
         </div>
       </CardContent>
@@ -6,6 +6,7 @@ import { AlertCircle, CheckCircle2 } from "lucide-react";
 interface ApiStatusAlertsProps {
   apiError: string | null;
   isApiKeyValid: boolean;
+  providerLabel: string;
   availableModels: Array<{
     name: string;
     displayName: string;
@@ -13,7 +14,7 @@ interface ApiStatusAlertsProps {
   }>;
 }
 
-const ApiStatusAlerts: React.FC<ApiStatusAlertsProps> = ({ apiError, isApiKeyValid, availableModels }) => {
+const ApiStatusAlerts: React.FC<ApiStatusAlertsProps> = ({ apiError, isApiKeyValid, providerLabel, availableModels }) => {
   return (
     <>
       {/* API Error Alert */}
@@ -30,7 +31,7 @@ const ApiStatusAlerts: React.FC<ApiStatusAlertsProps> = ({ apiError, isApiKeyVal
         <Alert className="mb-6 bg-green-50 border-green-200">
           <CheckCircle2 className="h-4 w-4 text-green-600" />
           <AlertTitle className="text-green-800">API Connected</AlertTitle>
-          <AlertDescription className="text-green-700">Successfully connected to Gemini API with {availableModels.length} models available.</AlertDescription>
+          <AlertDescription className="text-green-700">Successfully connected to {providerLabel} with {availableModels.length} models available.</AlertDescription>
         </Alert>
       )}
     </>
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AlertTriangle } from "lucide-react";
+import { BatchFile, BatchMode, findExcludedFiles } from "@/utils/batchUpload";
+
+interface BatchFileListProps {
+  batchFiles: BatchFile[];
+  batchMode: BatchMode;
+  onBatchModeChange: (mode: BatchMode) => void;
+  disabled?: boolean;
+}
+
+const BatchFileList: React.FC<BatchFileListProps> = ({
+  batchFiles,
+  batchMode,
+  onBatchModeChange,
+  disabled = false
+}) => {
+  const readableFiles = batchFiles.filter(batchFile => batchFile.data);
+  const excludedFiles = findExcludedFiles(batchFiles);
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>
+          {batchFiles.length} files uploaded, {readableFiles.length} readable
+        </Label>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="separateJobs"
+            checked={batchMode === 'separate'}
+            onCheckedChange={(checked) => onBatchModeChange(checked ? 'separate' : 'merged')}
+            disabled={disabled}
+          />
+          <Label htmlFor="separateJobs">Extract each file separately</Label>
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-auto rounded-md border">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-3 py-1 text-left font-medium">File</th>
+              <th className="px-3 py-1 text-left font-medium">Language pairs</th>
+              <th className="px-3 py-1 text-right font-medium">Units</th>
+            </tr>
+          </thead>
+          <tbody>
+            {batchFiles.map(batchFile => (
+              <tr key={batchFile.name} className="border-t align-top">
+                <td className="px-3 py-1 break-all">{batchFile.name}</td>
+                {batchFile.data ? (
+                  <>
+                    <td className="px-3 py-1">
+                      {batchFile.data.sourceLanguage} → {batchFile.data.targetLanguages.join(", ")}
+                      {excludedFiles.includes(batchFile) && (
+                        <span className="ml-2 text-amber-700">
+                          <AlertTriangle className="inline h-3 w-3 mr-1" />
+                          not included
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-1 text-right">
+                      {batchFile.data.multilingualUnits.length.toLocaleString()}
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={2} className="px-3 py-1 text-red-600">
+                    <AlertTriangle className="inline h-3 w-3 mr-1" />
+                    {batchFile.error}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {excludedFiles.length > 0 && (
+        <p className="text-xs text-amber-700">
+          The files have different source languages. Only files in {readableFiles[0].data!.sourceLanguage} are
+          included in the extraction; the {excludedFiles.length} marked {excludedFiles.length === 1 ? "file is" : "files are"} left
+          out. Upload them on their own to extract them.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BatchFileList;
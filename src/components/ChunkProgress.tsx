@@ -0,0 +1,110 @@
+import React from 'react';
+import { AlertCircle } from "lucide-react";
+import { ChunkState, ChunkStatus } from "@/utils/chunkProcessor";
+import { ERROR_KIND_LABELS } from "@/utils/apiErrors";
+
+/**
+ * The chunks of one job; a run over several language pairs or files has one job each
+ */
+export interface ChunkRun {
+  // Empty when the run has a single job
+  jobLabel: string;
+  statuses: ChunkStatus[];
+}
+
+interface ChunkProgressProps {
+  runs: ChunkRun[];
+  // The chunk grid of the current job is only shown while processing; failures stay listed afterwards
+  isProcessing: boolean;
+}
+
+const STATE_STYLES: Record<ChunkState, string> = {
+  pending: "bg-slate-200",
+  running: "bg-blue-400 animate-pulse",
+  retrying: "bg-amber-400 animate-pulse",
+  done: "bg-green-500",
+  failed: "bg-red-500",
+  skipped: "bg-slate-400"
+};
+
+const STATE_LABELS: Record<ChunkState, string> = {
+  pending: "waiting",
+  running: "running",
+  retrying: "retrying",
+  done: "done",
+  failed: "failed",
+  skipped: "skipped"
+};
+
+const describeChunk = (status: ChunkStatus): string => {
+  const attempts = status.attempts > 1 ? `, attempt ${status.attempts}` : '';
+  const terms = status.state === 'done' ? `, ${status.terms} terms` : '';
+  const parts = status.parts && status.parts > 1 ? `, split into ${status.parts} parts after a cut-off answer or an overlong prompt` : '';
+  const error = status.error && status.state !== 'done' ? ` (${ERROR_KIND_LABELS[status.error.kind]})` : '';
+  return `Chunk ${status.index + 1}: ${status.units} units, ${STATE_LABELS[status.state]}${attempts}${terms}${parts}${error}`;
+};
+
+const ChunkGrid: React.FC<{ run: ChunkRun }> = ({ run }) => {
+  const { statuses, jobLabel } = run;
+  const count = (state: ChunkState) => statuses.filter(status => status.state === state).length;
+  const active = count('running') + count('retrying');
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-slate-600">
+        {jobLabel && `${jobLabel}: `}
+        {count('done')} of {statuses.length} chunks done
+        {active > 0 && `, ${active} in progress`}
+        {count('failed') > 0 && `, ${count('failed')} failed`}
+      </p>
+      <div className="flex flex-wrap gap-1">
+        {statuses.map(status => (
+          <div
+            key={status.index}
+            className={`h-3 w-3 rounded-sm ${STATE_STYLES[status.state]}`}
+            title={describeChunk(status)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ChunkProgress: React.FC<ChunkProgressProps> = ({ runs, isProcessing }) => {
+  const currentRun = runs[runs.length - 1];
+  const failures = runs.flatMap(run =>
+    run.statuses
+      .filter(status => status.state === 'failed')
+      .map(status => ({ jobLabel: run.jobLabel, status }))
+  );
+
+  if (!currentRun || (!isProcessing && failures.length === 0)) return null;
+
+  return (
+    <div className="space-y-2">
+      {isProcessing && <ChunkGrid run={currentRun} />}
+      {failures.length > 0 && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-2 space-y-1">
+          <p className="text-sm font-medium text-red-800">
+            {failures.length} {failures.length === 1 ? "chunk" : "chunks"} gave no terms
+          </p>
+          <ul className="max-h-40 overflow-auto text-xs text-red-700 space-y-1">
+            {failures.map(({ jobLabel, status }) => (
+              <li key={`${jobLabel}-${status.index}`} className="flex gap-1">
+                <AlertCircle className="h-3 w-3 shrink-0 mt-0.5" />
+                <span>
+                  {jobLabel && `${jobLabel}, `}chunk {status.index + 1} ({status.units} units, {status.attempts} attempts):{" "}
+                  {status.error
+                    ? `${ERROR_KIND_LABELS[status.error.kind]}: ${status.error.message}`
+                    : "the model returned no terms"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChunkProgress;
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { normalizeLanguageTag } from "@/utils/languageCodes";
+import {
+  ColumnMapping,
+  SpreadsheetData,
+  getColumnNames,
+  suggestColumnMapping
+} from "@/utils/spreadsheetParser";
+
+interface ColumnMappingDialogProps {
+  spreadsheet: SpreadsheetData | null;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const NO_ID_COLUMN = "none";
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  spreadsheet,
+  onConfirm,
+  onCancel
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  // Start from a guess based on the header row of the first sheet
+  useEffect(() => {
+    setMapping(spreadsheet ? suggestColumnMapping(spreadsheet.sheets[0]) : null);
+  }, [spreadsheet]);
+
+  if (!spreadsheet || !mapping) return null;
+
+  const sheet = spreadsheet.sheets[mapping.sheetIndex];
+  const columnNames = getColumnNames(sheet, mapping.hasHeaderRow);
+  const previewRows = (mapping.hasHeaderRow ? sheet.rows.slice(1) : sheet.rows).slice(0, PREVIEW_ROWS);
+
+  const update = (changes: Partial<ColumnMapping>) => {
+    setMapping({ ...mapping, ...changes });
+  };
+
+  const handleSheetChange = (value: string) => {
+    const sheetIndex = parseInt(value);
+    setMapping({ ...suggestColumnMapping(spreadsheet.sheets[sheetIndex]), sheetIndex });
+  };
+
+  const toggleMetadataColumn = (column: number, checked: boolean) => {
+    update({
+      metadataColumns: checked
+        ? [...mapping.metadataColumns, column].sort((a, b) => a - b)
+        : mapping.metadataColumns.filter(c => c !== column)
+    });
+  };
+
+  const sameLanguage =
+    mapping.sourceLanguage.trim() !== "" &&
+    normalizeLanguageTag(mapping.sourceLanguage.trim()) === normalizeLanguageTag(mapping.targetLanguage.trim());
+
+  const isValid =
+    mapping.sourceColumn !== mapping.targetColumn &&
+    mapping.sourceLanguage.trim() !== "" &&
+    mapping.targetLanguage.trim() !== "" &&
+    !sameLanguage;
+
+  const handleConfirm = () => {
+    onConfirm({
+      ...mapping,
+      sourceLanguage: mapping.sourceLanguage.trim(),
+      targetLanguage: mapping.targetLanguage.trim()
+    });
+  };
+
+  const renderColumnSelect = (id: string, value: number, onChange: (column: number) => void) => (
+    <Select value={String(value)} onValueChange={(v) => onChange(parseInt(v))}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {columnNames.map((name, index) => (
+          <SelectItem key={index} value={String(index)}>{name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Map Columns</DialogTitle>
+          <DialogDescription>
+            Choose which columns of {spreadsheet.fileName} hold the source and target text
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {spreadsheet.sheets.length > 1 && (
+              <div className="grid gap-2">
+                <Label htmlFor="mappingSheet">Sheet</Label>
+                <Select value={String(mapping.sheetIndex)} onValueChange={handleSheetChange}>
+                  <SelectTrigger id="mappingSheet">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {spreadsheet.sheets.map((s, index) => (
+                      <SelectItem key={index} value={String(index)}>{s.name} ({s.rows.length} rows)</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="flex items-center gap-2 self-end pb-2">
+              <Switch
+                id="hasHeaderRow"
+                checked={mapping.hasHeaderRow}
+                onCheckedChange={(checked) => update({ hasHeaderRow: checked })}
+              />
+              <Label htmlFor="hasHeaderRow">First row is a header</Label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="sourceColumn">Source column</Label>
+              {renderColumnSelect("sourceColumn", mapping.sourceColumn, (column) => update({ sourceColumn: column }))}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="targetColumn">Target column</Label>
+              {renderColumnSelect("targetColumn", mapping.targetColumn, (column) => update({ targetColumn: column }))}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="sourceLanguage">Source language code</Label>
+              <Input
+                id="sourceLanguage"
+                value={mapping.sourceLanguage}
+                onChange={(e) => update({ sourceLanguage: e.target.value })}
+                placeholder="e.g. en-US"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="targetLanguage">Target language code</Label>
+              <Input
+                id="targetLanguage"
+                value={mapping.targetLanguage}
+                onChange={(e) => update({ targetLanguage: e.target.value })}
+                placeholder="e.g. de-DE"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="idColumn">ID column (optional)</Label>
+              <Select
+                value={mapping.idColumn !== undefined ? String(mapping.idColumn) : NO_ID_COLUMN}
+                onValueChange={(v) => update({ idColumn: v === NO_ID_COLUMN ? undefined : parseInt(v) })}
+              >
+                <SelectTrigger id="idColumn">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ID_COLUMN}>None (use row numbers)</SelectItem>
+                  {columnNames.map((name, index) => (
+                    <SelectItem key={index} value={String(index)}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {columnNames.length > 2 && (
+            <div className="space-y-2">
+              <Label>Keep as metadata</Label>
+              <div className="flex flex-wrap gap-4">
+                {columnNames.map((name, index) => {
+                  if (index === mapping.sourceColumn || index === mapping.targetColumn) return null;
+                  return (
+                    <div key={index} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`metadata-column-${index}`}
+                        checked={mapping.metadataColumns.includes(index)}
+                        onCheckedChange={(checked) => toggleMetadataColumn(index, checked === true)}
+                      />
+                      <Label htmlFor={`metadata-column-${index}`} className="font-normal">{name}</Label>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="max-h-56 overflow-auto rounded-md border">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50">
+                <tr>
+                  {columnNames.map((name, index) => (
+                    <th
+                      key={index}
+                      className={`px-2 py-1 text-left font-medium ${
+                        index === mapping.sourceColumn || index === mapping.targetColumn ? "text-slate-900" : "text-slate-400"
+                      }`}
+                    >
+                      {index === mapping.sourceColumn ? "Source: " : index === mapping.targetColumn ? "Target: " : ""}
+                      {name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {previewRows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t">
+                    {columnNames.map((_, index) => (
+                      <td key={index} className="px-2 py-1 align-top max-w-xs truncate">{row[index] || ""}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {mapping.sourceColumn === mapping.targetColumn && (
+            <p className="text-xs text-red-600">Source and target must be different columns.</p>
+          )}
+          {sameLanguage && (
+            <p className="text-xs text-red-600">Source and target must have different language codes.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={!isValid}>Use these columns</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { TranslationUnit, TuMetadata, parseTmxDate } from "@/utils/tmxParser";
+import { TerminologyPair } from "@/utils/glossary";
+import { Segment, createTextSegment, highlightTermInSegment } from "@/utils/segmentMarkup";
+
+interface ConcordanceViewProps {
+  term: TerminologyPair;
+  translationUnits: TranslationUnit[];
+  maxResults?: number;
+}
+
+const SegmentView: React.FC<{ segment: Segment; term: string }> = ({ segment, term }) => (
+  <span>
+    {highlightTermInSegment(segment, term).map((run, index) => {
+      if (run.type === 'code') {
+        // Show the tag as a small badge; the native code is available on hover
+        const label = run.closing ? `/${run.tag} ${run.id}` : `${run.tag} ${run.id}`;
+        return (
+          <span
+            key={index}
+            title={run.code || run.tag}
+            className="inline-block mx-0.5 px-1 rounded bg-slate-200 text-slate-600 text-[10px] font-mono align-middle"
+          >
+            {label}
+          </span>
+        );
+      }
+      return run.highlighted ? (
+        <mark key={index} className="bg-yellow-200 rounded-sm">{run.text}</mark>
+      ) : (
+        <span key={index}>{run.text}</span>
+      );
+    })}
+  </span>
+);
+
+const MetadataLine: React.FC<{ metadata: TuMetadata }> = ({ metadata }) => {
+  const changeDate = parseTmxDate(metadata.changeDate || metadata.creationDate);
+  const details = [
+    metadata.tuid && `TU ${metadata.tuid}`,
+    changeDate && changeDate.toLocaleDateString(),
+    (metadata.changeId || metadata.creationId) && `by ${metadata.changeId || metadata.creationId}`,
+    ...metadata.props.map(prop => (prop.type ? `${prop.type}: ${prop.value}` : prop.value))
+  ].filter(Boolean);
+
+  if (details.length === 0 && metadata.notes.length === 0) return null;
+
+  return (
+    <div className="col-span-2 text-[11px] text-slate-500 border-t pt-1">
+      {details.join(" · ")}
+      {metadata.notes.map((note, index) => (
+        <div key={index} className="italic">Note: {note}</div>
+      ))}
+    </div>
+  );
+};
+
+const ConcordanceView: React.FC<ConcordanceViewProps> = ({ term, translationUnits, maxResults = 10 }) => {
+  const sourceTerm = term.sourceTerm.toLowerCase();
+  const targetTerm = term.targetTerm.toLowerCase();
+
+  const matches = translationUnits.filter(unit =>
+    unit.source.toLowerCase().includes(sourceTerm) && unit.target.toLowerCase().includes(targetTerm)
+  );
+
+  if (matches.length === 0) {
+    return <p className="text-xs text-slate-500">No translation units contain this term pair.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-500">
+        Found in {matches.length} translation unit{matches.length === 1 ? "" : "s"}
+        {matches.length > maxResults && ` (showing first ${maxResults})`}
+      </p>
+      {matches.slice(0, maxResults).map((unit, index) => (
+        <div key={index} className="grid grid-cols-2 gap-4 text-sm border rounded-md p-2 bg-white">
+          <SegmentView segment={unit.sourceSegment || createTextSegment(unit.source)} term={term.sourceTerm} />
+          <SegmentView segment={unit.targetSegment || createTextSegment(unit.target)} term={term.targetTerm} />
+          {unit.metadata && <MetadataLine metadata={unit.metadata} />}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ConcordanceView;
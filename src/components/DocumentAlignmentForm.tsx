@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DOCUMENT_EXTENSIONS } from "@/utils/documentReader";
+import { guessLanguageFromFileName } from "@/utils/languageCodes";
+
+export interface DocumentAlignmentRequest {
+  sourceFile: File;
+  targetFile: File;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+interface DocumentAlignmentFormProps {
+  onAlignDocuments: (request: DocumentAlignmentRequest) => void;
+  disabled?: boolean;
+}
+
+const DocumentAlignmentForm: React.FC<DocumentAlignmentFormProps> = ({
+  onAlignDocuments,
+  disabled = false
+}) => {
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [targetFile, setTargetFile] = useState<File | null>(null);
+  const [sourceLanguage, setSourceLanguage] = useState("");
+  const [targetLanguage, setTargetLanguage] = useState("");
+
+  const handleFileChange = (
+    e: React.ChangeEvent<HTMLInputElement>,
+    setFile: (file: File | null) => void,
+    language: string,
+    setLanguage: (language: string) => void
+  ) => {
+    const file = e.target.files?.[0] || null;
+    setFile(file);
+    // Prefill the language from names such as "manual.de.docx"
+    if (file && !language) setLanguage(guessLanguageFromFileName(file.name));
+  };
+
+  const isValid = Boolean(sourceFile && targetFile && sourceLanguage.trim() && targetLanguage.trim());
+
+  const handleAlign = () => {
+    if (!sourceFile || !targetFile) return;
+    onAlignDocuments({
+      sourceFile,
+      targetFile,
+      sourceLanguage: sourceLanguage.trim(),
+      targetLanguage: targetLanguage.trim()
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">
+        Upload a document and its translation ({DOCUMENT_EXTENSIONS.join(', ')}). They are split into sentences
+        and aligned, and you can review the pairs before extraction.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="alignSourceFile">Source document</Label>
+          <Input
+            id="alignSourceFile"
+            type="file"
+            accept={DOCUMENT_EXTENSIONS.join(',')}
+            onChange={(e) => handleFileChange(e, setSourceFile, sourceLanguage, setSourceLanguage)}
+            disabled={disabled}
+          />
+          <Input
+            value={sourceLanguage}
+            onChange={(e) => setSourceLanguage(e.target.value)}
+            placeholder="Source language, e.g. en"
+            disabled={disabled}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="alignTargetFile">Translated document</Label>
+          <Input
+            id="alignTargetFile"
+            type="file"
+            accept={DOCUMENT_EXTENSIONS.join(',')}
+            onChange={(e) => handleFileChange(e, setTargetFile, targetLanguage, setTargetLanguage)}
+            disabled={disabled}
+          />
+          <Input
+            value={targetLanguage}
+            onChange={(e) => setTargetLanguage(e.target.value)}
+            placeholder="Target language, e.g. de"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <Button onClick={handleAlign} disabled={disabled || !isValid}>
+        Align Documents
+      </Button>
+    </div>
+  );
+};
+
+export default DocumentAlignmentForm;
@@ -1,38 +1,196 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import TerminologyExtractor from "./TerminologyExtractor";
+import { Switch } from "@/components/ui/switch";
+import { Pause, Play, Square } from "lucide-react";
+import { toast } from "@/components/ui/use-toast";
+import TerminologyExtractor, { ExtractionDataset } from "./TerminologyExtractor";
+import ChunkProgress, { ChunkRun } from "./ChunkProgress";
+import JobLog, { JobLogEntry } from "./JobLog";
+import PriceTableEditor from "./PriceTableEditor";
+import { ChunkStatus, chunkTokenBudget } from "@/utils/chunkProcessor";
+import { ChunkSizeDecision } from "@/utils/chunkSizer";
+import { Glossary } from "@/utils/glossary";
+import { InlineCodeMode } from "@/utils/segmentMarkup";
+import { TuFilterOptions, applyTuFilter } from "@/utils/tuFilter";
+import { selectLanguagePair } from "@/utils/tmxParser";
+import { LlmModel, ProviderSettings, TokenUsage } from "@/utils/llmProvider";
+import { getProvider, isProviderConfigured } from "@/utils/providerRegistry";
+import { createJobControl } from "@/utils/jobControl";
+import { ExtractionJobSettings } from "@/utils/jobStore";
+import {
+  DEFAULT_MODEL_PRICES,
+  ExtractionEstimate,
+  ModelPrice,
+  addUsage,
+  calculateCost,
+  estimateExtraction,
+  findModelPrice,
+  formatCost,
+  loadModelPrices,
+  saveModelPrices
+} from "@/utils/costEstimator";
+
+const NO_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+// Quiet time after the last settings change before the estimate is computed
+const ESTIMATE_DELAY_MS = 500;
 
 interface ExtractCardProps {
   isProcessing: boolean;
   progress: number;
-  apiKey: string;
+  providerSettings: ProviderSettings;
   selectedModel: string;
+  // Listing of the selected model, with its token limits where the API tells them
+  selectedModelInfo?: LlmModel;
   datasetInfo: string;
-  tmxFile: File | null;
+  // Empty until a file is uploaded
+  datasets: ExtractionDataset[];
+  selectedTargetLanguages: string[];
+  filterOptions: TuFilterOptions;
+  // Settings of a restored job, applied whenever another job is restored
+  restoredSettings?: ExtractionJobSettings | null;
+  // Restored job whose checkpoint the extraction may resume
+  resumeJobId?: string;
   onExtractTerminology: () => void;
   onProgress: (progress: number) => void;
-  onComplete: (terms: Array<{sourceTerm: string, targetTerm: string}>) => void;
+  onComplete: (glossaries: Glossary[]) => void;
+  onCancelled: (glossaries: Glossary[]) => void;
   onError: (error: string) => void;
 }
 
 const ExtractCard: React.FC<ExtractCardProps> = ({
   isProcessing,
   progress,
-  apiKey,
+  providerSettings,
   selectedModel,
+  selectedModelInfo,
   datasetInfo,
-  tmxFile,
+  datasets,
+  selectedTargetLanguages,
+  filterOptions,
+  restoredSettings,
+  resumeJobId,
   onExtractTerminology,
   onProgress,
   onComplete,
+  onCancelled,
   onError
 }) => {
   const [maxTokensPerChunk, setMaxTokensPerChunk] = useState<number>(100000);
+  const [adaptiveChunkSize, setAdaptiveChunkSize] = useState(true);
+  const [inlineCodeMode, setInlineCodeMode] = useState<InlineCodeMode>('strip');
+  const [includeMetadata, setIncludeMetadata] = useState(true);
+  const [concurrency, setConcurrency] = useState<number>(3);
+  // No limit while empty
+  const [requestsPerMinute, setRequestsPerMinute] = useState<number | undefined>(undefined);
+  const [tokensPerMinute, setTokensPerMinute] = useState<number | undefined>(undefined);
+  const [chunkRuns, setChunkRuns] = useState<ChunkRun[]>([]);
+  const [jobLog, setJobLog] = useState<JobLogEntry[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [prices, setPrices] = useState<ModelPrice[]>(DEFAULT_MODEL_PRICES);
+  const [showPrices, setShowPrices] = useState(false);
+  // Tokens the API reported for the current run
+  const [usage, setUsage] = useState<TokenUsage>(NO_USAGE);
+  // No cap while empty
+  const [budget, setBudget] = useState<number | undefined>(undefined);
+  const [estimate, setEstimate] = useState<ExtractionEstimate | null>(null);
+  // Budget the run was last paused for, so resuming past it does not pause again
+  const pausedAtBudget = useRef<number | undefined>(undefined);
+
+  useEffect(() => {
+    loadModelPrices()
+      .then(setPrices)
+      .catch(error => console.error("Could not load the price table:", error));
+  }, []);
+
+  // A restored job must build the same prompts again to match its checkpoint
+  useEffect(() => {
+    if (!restoredSettings) return;
+    setMaxTokensPerChunk(restoredSettings.maxTokensPerChunk);
+    setInlineCodeMode(restoredSettings.inlineCodeMode);
+    setIncludeMetadata(restoredSettings.includeMetadata);
+  }, [restoredSettings]);
+
+  // Every run gets its own control, ready before the extractor mounts
+  const jobControl = useMemo(() => (isProcessing ? createJobControl() : undefined), [isProcessing]);
+
+  // Chunks of the previous run must not show while a new one starts
+  useEffect(() => {
+    if (isProcessing) {
+      setChunkRuns([]);
+      setJobLog([]);
+      setUsage(NO_USAGE);
+      pausedAtBudget.current = undefined;
+      setIsPaused(false);
+      setIsCancelling(false);
+    }
+  }, [isProcessing]);
+
+  const modelPrice = findModelPrice(prices, selectedModel);
+  const cost = modelPrice ? calculateCost(usage, modelPrice) : undefined;
+
+  // Chunks the run would send at the maximum chunk size, counted offline from the filtered units.
+  // Measuring every unit takes a while on large files, so it waits until the settings stop
+  // changing and does not run while the extraction does.
+  const inputTokenLimit = selectedModelInfo?.inputTokenLimit;
+  useEffect(() => {
+    if (isProcessing) return;
+    const timer = setTimeout(() => {
+      const pairs = datasets.flatMap(dataset =>
+        selectedTargetLanguages
+          .filter(language => dataset.tmxData.targetLanguages.includes(language))
+          .map(language => applyTuFilter(selectLanguagePair(dataset.tmxData, language), filterOptions))
+      );
+      const tokenBudget = chunkTokenBudget(maxTokensPerChunk, inputTokenLimit);
+      setEstimate(pairs.length > 0
+        ? estimateExtraction(pairs, datasetInfo, { inlineCodeMode, includeMetadata }, tokenBudget)
+        : null);
+    }, ESTIMATE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isProcessing, datasets, selectedTargetLanguages, filterOptions, datasetInfo, maxTokensPerChunk, inputTokenLimit, inlineCodeMode, includeMetadata]);
+
+  // Chunks already sent still finish, so the final cost can end up slightly above the budget
+  useEffect(() => {
+    if (!jobControl || cost === undefined || budget === undefined || cost < budget) return;
+    if (isPaused || pausedAtBudget.current === budget) return;
+    pausedAtBudget.current = budget;
+    jobControl.pause();
+    setIsPaused(true);
+    toast({
+      title: "Budget reached",
+      description: `The run has cost ${formatCost(cost)} of its ${formatCost(budget)} budget and is paused. Raise the budget or resume to go on.`,
+    });
+  }, [jobControl, cost, budget, isPaused]);
+
+  const handlePricesChange = (newPrices: ModelPrice[]) => {
+    setPrices(newPrices);
+    saveModelPrices(newPrices).catch(error => console.error("Could not save the price table:", error));
+  };
+
+  const handleUsage = (answerUsage: TokenUsage) => {
+    setUsage(total => addUsage(total, answerUsage));
+  };
+
+  const handlePauseToggle = () => {
+    if (!jobControl) return;
+    if (isPaused) {
+      jobControl.resume();
+    } else {
+      jobControl.pause();
+    }
+    setIsPaused(!isPaused);
+  };
+
+  const handleCancel = () => {
+    jobControl?.cancel();
+    setIsPaused(false);
+    setIsCancelling(true);
+  };
 
   const handleMaxTokensChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value);
@@ -41,11 +199,40 @@ const ExtractCard: React.FC<ExtractCardProps> = ({
     }
   };
 
+  const handleConcurrencyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value);
+    if (!isNaN(value) && value > 0) {
+      setConcurrency(value);
+    }
+  };
+
+  const parseOptionalLimit = (value: string): number | undefined => {
+    const limit = parseInt(value);
+    return !isNaN(limit) && limit > 0 ? limit : undefined;
+  };
+
+  const handleChunkStatus = (statuses: ChunkStatus[], jobLabel: string) => {
+    setChunkRuns(runs => {
+      const last = runs[runs.length - 1];
+      return last && last.jobLabel === jobLabel
+        ? [...runs.slice(0, -1), { jobLabel, statuses }]
+        : [...runs, { jobLabel, statuses }];
+    });
+  };
+
+  const handleChunkSizeDecision = (decision: ChunkSizeDecision, jobLabel: string) => {
+    setJobLog(entries => [...entries, { time: new Date().toISOString(), jobLabel, decision }]);
+  };
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Step 4: Extract Terminology</CardTitle>
-        <CardDescription>Process the TMX file to extract terminology pairs</CardDescription>
+        <CardTitle>Step 5: Extract Terminology</CardTitle>
+        <CardDescription>
+          Process the uploaded file to extract terminology pairs
+          {selectedTargetLanguages.length > 1 && ` for ${selectedTargetLanguages.length} language pairs`}
+          {datasets.length > 1 && `, running each of the ${datasets.length} files as a separate job`}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
@@ -61,15 +248,156 @@ const ExtractCard: React.FC<ExtractCardProps> = ({
               className="w-full"
             />
             <p className="text-xs text-slate-500">
-              Larger files will be processed in chunks of this approximate token size.
-              Gemini models support different context windows - recommended value is 100,000.
+              Larger files will be processed in chunks whose whole prompt, instructions and dataset info
+              included, stays below this many tokens. Tokens are counted by the provider where it can,
+              so Chinese, Japanese, Korean and Thai text makes smaller chunks than English.
+              {selectedModelInfo?.inputTokenLimit
+                ? ` Chunks also stay below the ${selectedModelInfo.inputTokenLimit.toLocaleString()} token input limit of the selected model.`
+                : " Models support different context windows - recommended value is 100,000."}
+            </p>
+          </div>
+
+          <div className="flex items-start gap-3">
+            <Switch
+              id="adaptiveChunkSize"
+              checked={adaptiveChunkSize}
+              onCheckedChange={setAdaptiveChunkSize}
+              disabled={isProcessing}
+            />
+            <div className="grid gap-1">
+              <Label htmlFor="adaptiveChunkSize">Adapt chunk size to the answers</Label>
+              <p className="text-xs text-slate-500">
+                Later chunks get smaller when an answer is cut off, fails or has few terms for its size,
+                and grow back towards the maximum while answers are healthy. Changes are listed in the job log.
+              </p>
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="concurrency">Concurrent Requests</Label>
+                <Input
+                  id="concurrency"
+                  type="number"
+                  min={1}
+                  value={concurrency}
+                  onChange={handleConcurrencyChange}
+                  disabled={isProcessing}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="requestsPerMinute">Requests Per Minute</Label>
+                <Input
+                  id="requestsPerMinute"
+                  type="number"
+                  min={1}
+                  value={requestsPerMinute ?? ''}
+                  onChange={(e) => setRequestsPerMinute(parseOptionalLimit(e.target.value))}
+                  disabled={isProcessing}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tokensPerMinute">Tokens Per Minute</Label>
+                <Input
+                  id="tokensPerMinute"
+                  type="number"
+                  min={1}
+                  value={tokensPerMinute ?? ''}
+                  onChange={(e) => setTokensPerMinute(parseOptionalLimit(e.target.value))}
+                  disabled={isProcessing}
+                  placeholder="No limit"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              Chunks are sent side by side, up to the number of concurrent requests. Set the per-minute limits
+              of your API plan to avoid rate limit errors; results are always assembled in file order.
+            </p>
+          </div>
+
+          <div className="flex items-start gap-3">
+            <Switch
+              id="inlineCodePlaceholders"
+              checked={inlineCodeMode === 'placeholder'}
+              onCheckedChange={(checked) => setInlineCodeMode(checked ? 'placeholder' : 'strip')}
+              disabled={isProcessing}
+            />
+            <div className="grid gap-1">
+              <Label htmlFor="inlineCodePlaceholders">Keep inline tag placeholders</Label>
+              <p className="text-xs text-slate-500">
+                Formatting codes inside segments are always removed from the text sent to the model.
+                Enable this to replace them with tokens like {"{1}"} so the model can still see where tags were.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-start gap-3">
+            <Switch
+              id="includeMetadata"
+              checked={includeMetadata}
+              onCheckedChange={setIncludeMetadata}
+              disabled={isProcessing}
+            />
+            <div className="grid gap-1">
+              <Label htmlFor="includeMetadata">Send TU metadata as context</Label>
+              <p className="text-xs text-slate-500">
+                Include the props (client, project, domain...) and notes of each translation unit in the prompt.
+                This helps the model judge domain relevance but uses more tokens.
+              </p>
+            </div>
+          </div>
+
+          <div className="grid gap-2 rounded-md border p-3">
+            <div className="flex items-center justify-between gap-4">
+              <Label>Estimated cost</Label>
+              <Button variant="ghost" size="sm" onClick={() => setShowPrices(!showPrices)}>
+                {showPrices ? "Hide prices" : "Edit prices"}
+              </Button>
+            </div>
+            {estimate ? (
+              <p className="text-sm text-slate-700">
+                About {estimate.chunks.toLocaleString()} {estimate.chunks === 1 ? "chunk" : "chunks"},
+                {" "}{estimate.inputTokens.toLocaleString()} input and {estimate.outputTokens.toLocaleString()} output tokens
+                {modelPrice
+                  ? `, ${formatCost(calculateCost(estimate, modelPrice))} with ${selectedModel}.`
+                  : selectedModel ? `. No price for ${selectedModel} in the price table.` : "."}
+              </p>
+            ) : (
+              <p className="text-sm text-slate-500">Upload a file and select a language pair to see an estimate.</p>
+            )}
+            <p className="text-xs text-slate-500">
+              Counted at the maximum chunk size. Smaller adapted chunks, retries and cut-off answers sent again in
+              parts cost more; reasoning models also bill their thinking as output tokens.
+            </p>
+            {showPrices && (
+              <PriceTableEditor prices={prices} onChange={handlePricesChange} />
+            )}
+            <div className="grid gap-2 sm:w-1/3">
+              <Label htmlFor="budget">Budget (USD)</Label>
+              <Input
+                id="budget"
+                type="number"
+                min={0}
+                step="any"
+                value={budget ?? ''}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  setBudget(!isNaN(value) && value > 0 ? value : undefined);
+                }}
+                placeholder="No limit"
+              />
+            </div>
+            <p className="text-xs text-slate-500">
+              The run pauses once the tokens reported by the API cost this much. Raise the budget and resume to go on.
             </p>
           </div>
 
           <Button 
             className="w-full" 
             onClick={onExtractTerminology}
-            disabled={isProcessing || !apiKey || !selectedModel || !datasetInfo || !tmxFile}
+            disabled={isProcessing || !isProviderConfigured(providerSettings) || !selectedModel || !datasetInfo || datasets.length === 0 || selectedTargetLanguages.length === 0}
           >
             {isProcessing ? "Processing..." : "Extract Terminology"}
           </Button>
@@ -78,22 +406,58 @@ const ExtractCard: React.FC<ExtractCardProps> = ({
             <div className="mt-4 space-y-2">
               <Progress value={progress} className="h-2" />
               <p className="text-sm text-center text-slate-600">
-                Processing... {progress}%
+                {isCancelling
+                  ? "Cancelling..."
+                  : isPaused
+                    ? `Paused at ${progress}%. Chunks already sent will finish, no new ones start until you resume.`
+                    : `Processing... ${progress}%`}
+              </p>
+              <p className="text-xs text-center text-slate-500">
+                {usage.inputTokens.toLocaleString()} input and {usage.outputTokens.toLocaleString()} output tokens used
+                {cost !== undefined && `, ${formatCost(cost)}`}
+                {cost !== undefined && budget !== undefined && ` of ${formatCost(budget)}`}
               </p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" size="sm" onClick={handlePauseToggle} disabled={isCancelling}>
+                  {isPaused ? <Play className="h-4 w-4 mr-1" /> : <Pause className="h-4 w-4 mr-1" />}
+                  {isPaused ? "Resume" : "Pause"}
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleCancel} disabled={isCancelling}>
+                  <Square className="h-4 w-4 mr-1" /> Cancel
+                </Button>
+              </div>
             </div>
           )}
+
+          <ChunkProgress runs={chunkRuns} isProcessing={isProcessing} />
+
+          <JobLog entries={jobLog} providerLabel={getProvider(providerSettings.providerId).label} modelName={selectedModel} />
           
           {/* Invisible component that handles the extraction logic */}
-          {isProcessing && tmxFile && (
+          {isProcessing && datasets.length > 0 && (
             <TerminologyExtractor
-              apiKey={apiKey}
+              providerSettings={providerSettings}
               modelName={selectedModel}
               datasetInfo={datasetInfo}
-              tmxFile={tmxFile}
+              datasets={datasets}
+              targetLanguages={selectedTargetLanguages}
+              filterOptions={filterOptions}
               onProgress={onProgress}
+              onChunkStatus={handleChunkStatus}
+              onChunkSizeDecision={handleChunkSizeDecision}
+              onUsage={handleUsage}
               onComplete={onComplete}
+              onCancelled={onCancelled}
               onError={onError}
+              jobControl={jobControl}
+              resumeJobId={resumeJobId}
               maxTokensPerChunk={maxTokensPerChunk}
+              inputTokenLimit={selectedModelInfo?.inputTokenLimit}
+              adaptiveChunkSize={adaptiveChunkSize}
+              inlineCodeMode={inlineCodeMode}
+              includeMetadata={includeMetadata}
+              concurrency={concurrency}
+              rateLimits={{ requestsPerMinute, tokensPerMinute }}
             />
           )}
         </div>
@@ -1,27 +1,141 @@
-
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import FileUploader from "./FileUploader";
+import LanguagePairPicker from "./LanguagePairPicker";
+import DocumentAlignmentForm, { DocumentAlignmentRequest } from "./DocumentAlignmentForm";
+import BatchFileList from "./BatchFileList";
+import ValidationReportPanel from "./ValidationReportPanel";
+import { TmxData } from "@/utils/tmxParser";
+import { SUPPORTED_EXTENSIONS } from "@/utils/fileParser";
+import { ARCHIVE_EXTENSIONS, BatchFile, BatchMode } from "@/utils/batchUpload";
+import { ENCODING_OPTIONS, getEncodingLabel } from "@/utils/encoding";
+import { ValidationReport } from "@/utils/validationReport";
+import { LANGUAGE_GROUPING_OPTIONS, LanguageGrouping } from "@/utils/languageCodes";
 
 interface FileUploadCardProps {
   tmxFile: File | null;
-  onFileUpload: (file: File) => void;
+  tmxData: TmxData | null;
+  // Files of a multi-file upload; empty for a single file
+  batchFiles: BatchFile[];
+  batchMode: BatchMode;
+  onBatchModeChange: (mode: BatchMode) => void;
+  // Chosen encoding ("auto" to detect) and the encoding the current file was decoded with
+  encoding: string;
+  fileEncoding: string | null;
+  onEncodingChange: (encoding: string) => void;
+  // Whether regional variants such as en-US and en-GB are separate languages
+  languageGrouping: LanguageGrouping;
+  onLanguageGroupingChange: (grouping: LanguageGrouping) => void;
+  // Problems found while reading the uploaded files
+  validationReports: ValidationReport[];
+  isParsingFile: boolean;
+  // Percentage of the file's bytes read so far
+  parseProgress: number;
+  selectedTargetLanguages: string[];
+  onSelectedTargetLanguagesChange: (languages: string[]) => void;
+  onFilesUpload: (files: File[]) => void;
+  onAlignDocuments: (request: DocumentAlignmentRequest) => void;
 }
 
-const FileUploadCard: React.FC<FileUploadCardProps> = ({ tmxFile, onFileUpload }) => {
+const FileUploadCard: React.FC<FileUploadCardProps> = ({
+  tmxFile,
+  tmxData,
+  batchFiles,
+  batchMode,
+  onBatchModeChange,
+  encoding,
+  fileEncoding,
+  onEncodingChange,
+  languageGrouping,
+  onLanguageGroupingChange,
+  validationReports,
+  isParsingFile,
+  parseProgress,
+  selectedTargetLanguages,
+  onSelectedTargetLanguagesChange,
+  onFilesUpload,
+  onAlignDocuments
+}) => {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Step 3: Upload TMX File</CardTitle>
-        <CardDescription>Upload your TMX translation memory file</CardDescription>
+        <CardTitle>Step 3: Upload Bilingual Files</CardTitle>
+        <CardDescription>Upload TMX translation memories, an XLIFF file (including SDLXLIFF and MQXLIFF), a Gettext PO file, a pair of JSON resource files, a bilingual CSV, TSV or XLSX table, or align a document with its translation</CardDescription>
       </CardHeader>
       <CardContent>
-        <FileUploader onFileUpload={onFileUpload} />
+        <Tabs defaultValue="file">
+          <TabsList className="mb-4">
+            <TabsTrigger value="file">Bilingual file</TabsTrigger>
+            <TabsTrigger value="documents">Align two documents</TabsTrigger>
+          </TabsList>
+          <TabsContent value="file">
+            <FileUploader onFilesUpload={onFilesUpload} accept={[...SUPPORTED_EXTENSIONS, ...ARCHIVE_EXTENSIONS].join(',')} />
+          </TabsContent>
+          <TabsContent value="documents">
+            <DocumentAlignmentForm onAlignDocuments={onAlignDocuments} disabled={isParsingFile} />
+          </TabsContent>
+        </Tabs>
+        <div className="flex items-center gap-2 mt-4">
+          <Label htmlFor="encoding" className="text-sm text-slate-600">Character encoding</Label>
+          <Select value={encoding} onValueChange={onEncodingChange} disabled={isParsingFile}>
+            <SelectTrigger id="encoding" className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENCODING_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 mt-2">
+          <Label htmlFor="languageGrouping" className="text-sm text-slate-600">Language variants</Label>
+          <Select
+            value={languageGrouping}
+            onValueChange={(value) => onLanguageGroupingChange(value as LanguageGrouping)}
+            disabled={isParsingFile}
+          >
+            <SelectTrigger id="languageGrouping" className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LANGUAGE_GROUPING_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         {tmxFile && (
           <p className="text-sm text-green-600 mt-2">
-            Uploaded: {tmxFile.name} ({Math.round(tmxFile.size / 1024)} KB)
+            Uploaded: {tmxFile.name} ({Math.round(tmxFile.size / 1024)} KB
+            {fileEncoding && `, ${getEncodingLabel(fileEncoding)}`})
           </p>
         )}
+        {batchFiles.length > 0 && !isParsingFile && (
+          <BatchFileList
+            batchFiles={batchFiles}
+            batchMode={batchMode}
+            onBatchModeChange={onBatchModeChange}
+          />
+        )}
+        {!isParsingFile && <ValidationReportPanel reports={validationReports} />}
+        {isParsingFile && (
+          <div className="mt-2 space-y-1">
+            <Progress value={parseProgress} className="h-2" />
+            <p className="text-sm text-slate-600">Reading translation units... {parseProgress}%</p>
+          </div>
+        )}
+        {tmxData && !isParsingFile && (
+          <LanguagePairPicker
+            tmxData={tmxData}
+            selectedTargetLanguages={selectedTargetLanguages}
+            onSelectedTargetLanguagesChange={onSelectedTargetLanguagesChange}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -1,62 +1,98 @@
-
 import { useRef, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Upload } from 'lucide-react';
 
 interface FileUploaderProps {
-  onFileUpload: (file: File) => void;
+  onFilesUpload: (files: File[]) => void;
   accept?: string;
 }
 
-const FileUploader = ({ onFileUpload, accept = ".tmx" }: FileUploaderProps) => {
+/**
+ * Collect the files of a dropped item, walking into dropped folders
+ */
+const readDroppedEntry = async (entry: FileSystemEntry, path = ""): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [path ? new File([file], `${path}${file.name}`) : file];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns the directory contents in pages until it returns an empty page
+  while (true) {
+    const page = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (page.length === 0) break;
+    children.push(...page);
+  }
+
+  const files = await Promise.all(children.map(child => readDroppedEntry(child, `${path}${entry.name}/`)));
+  return files.flat();
+};
+
+const FileUploader = ({ onFilesUpload, accept = ".tmx" }: FileUploaderProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
-  
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      validateAndUpload(file);
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      validateAndUpload(files);
     }
+    // Allow selecting the same files again
+    e.target.value = "";
   };
-  
-  const validateAndUpload = (file: File) => {
+
+  const validateAndUpload = (files: File[]) => {
     // Check file extension (simple validation)
-    const acceptedFormats = accept.split(',').map(format => 
+    const acceptedFormats = accept.split(',').map(format =>
       format.trim().toLowerCase().replace('*', '')
     );
-    
-    const fileExt = '.' + file.name.split('.').pop()?.toLowerCase();
-    
-    if (!acceptedFormats.includes(fileExt)) {
+
+    const validFiles = files.filter(file => acceptedFormats.includes('.' + file.name.split('.').pop()?.toLowerCase()));
+
+    if (validFiles.length === 0) {
       alert(`Please upload a valid file (${accept}).`);
       return;
     }
-    
-    // Pass the valid file to parent component
-    onFileUpload(file);
+
+    if (validFiles.length < files.length) {
+      console.warn(`Skipped ${files.length - validFiles.length} unsupported files`);
+    }
+
+    // Pass the valid files to parent component
+    onFilesUpload(validFiles);
   };
-  
+
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(true);
   };
-  
+
   const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
   };
-  
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
-    
-    const file = e.dataTransfer.files?.[0];
-    if (file) {
-      validateAndUpload(file);
+
+    // Entries have to be taken before the event handler yields
+    const entries = Array.from(e.dataTransfer.items || [])
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+    const files = entries.length > 0
+      ? (await Promise.all(entries.map(entry => readDroppedEntry(entry)))).flat()
+      : Array.from(e.dataTransfer.files || []);
+
+    if (files.length > 0) {
+      validateAndUpload(files);
     }
   };
-  
+
   return (
     <div
       className={cn(
@@ -73,23 +109,38 @@ const FileUploader = ({ onFileUpload, accept = ".tmx" }: FileUploaderProps) => {
         ref={fileInputRef}
         onChange={handleFileChange}
         className="hidden"
+        multiple
       />
-      
+      <input
+        type="file"
+        ref={folderInputRef}
+        onChange={handleFileChange}
+        className="hidden"
+        {...{ webkitdirectory: "" }}
+      />
+
       <div className="flex flex-col items-center justify-center gap-2">
         <Upload className="h-10 w-10 text-gray-400" />
         <div className="text-sm text-gray-600">
-          <span className="font-medium">Click to upload</span> or drag and drop
+          <span className="font-medium">Click to upload</span> or drag and drop files, a folder or a ZIP archive
         </div>
         <p className="text-xs text-gray-500">
-          TMX files only ({accept}) in UTF-8 encoding
+          Supported files ({accept.split(',').join(', ')})
         </p>
-        <Button 
-          variant="outline" 
-          onClick={() => fileInputRef.current?.click()}
-          className="mt-2"
-        >
-          Select File
-        </Button>
+        <div className="flex gap-2 mt-2">
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Select Files
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => folderInputRef.current?.click()}
+          >
+            Select Folder
+          </Button>
+        </div>
       </div>
     </div>
   );
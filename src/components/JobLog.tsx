@@ -0,0 +1,70 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { CHUNK_SIZE_REASON_LABELS, ChunkSizeDecision } from "@/utils/chunkSizer";
+
+/**
+ * A chunk size change of a run, with the job it happened in
+ */
+export interface JobLogEntry {
+  time: string;
+  // Empty when the run has a single job
+  jobLabel: string;
+  decision: ChunkSizeDecision;
+}
+
+interface JobLogProps {
+  entries: JobLogEntry[];
+  providerLabel: string;
+  modelName: string;
+}
+
+const describeDecision = ({ decision }: JobLogEntry): string => {
+  const direction = decision.tokens < decision.previousTokens ? "shrunk" : "grown";
+  return `after chunk ${decision.chunkIndex + 1} (${CHUNK_SIZE_REASON_LABELS[decision.reason]}, ` +
+    `${decision.termsPerThousandTokens.toFixed(1)} terms per 1,000 tokens): ${direction} from ` +
+    `${decision.previousTokens.toLocaleString()} to ${decision.tokens.toLocaleString()} tokens`;
+};
+
+/**
+ * How the chunk size adapted during the run. The download keeps the model with the decisions,
+ * so default chunk sizes can be tuned per model.
+ */
+const JobLog: React.FC<JobLogProps> = ({ entries, providerLabel, modelName }) => {
+  if (entries.length === 0) return null;
+
+  const handleDownload = () => {
+    const log = { provider: providerLabel, model: modelName, entries };
+    const blob = new Blob([JSON.stringify(log, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', 'job-log.json');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-md border p-2 space-y-1">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-slate-700">
+          Job log: {entries.length} chunk size {entries.length === 1 ? "change" : "changes"}
+        </p>
+        <Button variant="ghost" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-1" /> Download
+        </Button>
+      </div>
+      <ul className="max-h-40 overflow-auto text-xs text-slate-600 space-y-1">
+        {entries.map((entry, index) => (
+          <li key={index}>
+            {new Date(entry.time).toLocaleTimeString()} {entry.jobLabel && `${entry.jobLabel}, `}{describeDecision(entry)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default JobLog;
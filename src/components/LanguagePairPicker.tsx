@@ -0,0 +1,80 @@
+import React from 'react';
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { TmxData, countTranslationUnits } from "@/utils/tmxParser";
+import { getLanguageName } from "@/utils/languageCodes";
+
+interface LanguagePairPickerProps {
+  tmxData: TmxData;
+  selectedTargetLanguages: string[];
+  onSelectedTargetLanguagesChange: (languages: string[]) => void;
+  disabled?: boolean;
+}
+
+const LanguagePairPicker: React.FC<LanguagePairPickerProps> = ({
+  tmxData,
+  selectedTargetLanguages,
+  onSelectedTargetLanguagesChange,
+  disabled = false
+}) => {
+  const handleToggle = (language: string, checked: boolean) => {
+    if (checked) {
+      // Keep the selection in the order the languages appear in the file
+      onSelectedTargetLanguagesChange(
+        tmxData.targetLanguages.filter(lang => lang === language || selectedTargetLanguages.includes(lang))
+      );
+    } else {
+      onSelectedTargetLanguagesChange(selectedTargetLanguages.filter(lang => lang !== language));
+    }
+  };
+
+  const allSelected = selectedTargetLanguages.length === tmxData.targetLanguages.length;
+
+  return (
+    <div className="space-y-2 mt-4">
+      <div className="flex justify-between items-center">
+        <Label>Language Pairs</Label>
+        {tmxData.targetLanguages.length > 1 && (
+          <button
+            type="button"
+            className="text-xs text-blue-500 hover:underline disabled:opacity-50"
+            onClick={() => onSelectedTargetLanguagesChange(allSelected ? [] : [...tmxData.targetLanguages])}
+            disabled={disabled}
+          >
+            {allSelected ? "Clear all" : "Select all"}
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {tmxData.targetLanguages.map(language => {
+          const id = `pair-${language}`;
+          return (
+            <div key={language} className="flex items-center gap-2 border rounded-md px-3 py-2">
+              <Checkbox
+                id={id}
+                checked={selectedTargetLanguages.includes(language)}
+                onCheckedChange={(checked) => handleToggle(language, checked === true)}
+                disabled={disabled}
+              />
+              <Label
+                htmlFor={id}
+                className="flex-1 cursor-pointer font-normal"
+                title={`${getLanguageName(tmxData.sourceLanguage)} → ${getLanguageName(language)}`}
+              >
+                {tmxData.sourceLanguage} → {language}
+              </Label>
+              <span className="text-xs text-slate-500">
+                {countTranslationUnits(tmxData, language)} units
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500">
+        A separate glossary is extracted for each selected language pair.
+      </p>
+    </div>
+  );
+};
+
+export default LanguagePairPicker;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import { DEFAULT_MODEL_PRICES, ModelPrice } from "@/utils/costEstimator";
+
+interface PriceTableEditorProps {
+  prices: ModelPrice[];
+  onChange: (prices: ModelPrice[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Editable prices per model, in US dollars per million tokens
+ */
+const PriceTableEditor: React.FC<PriceTableEditorProps> = ({ prices, onChange, disabled = false }) => {
+  const updatePrice = (index: number, change: Partial<ModelPrice>) => {
+    onChange(prices.map((price, i) => (i === index ? { ...price, ...change } : price)));
+  };
+
+  const parsePrice = (value: string): number => {
+    const price = parseFloat(value);
+    return !isNaN(price) && price >= 0 ? price : 0;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-64 overflow-auto rounded-md border">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-3 py-1 text-left font-medium">Model name contains</th>
+              <th className="px-3 py-1 text-left font-medium">Input $ / 1M tokens</th>
+              <th className="px-3 py-1 text-left font-medium">Output $ / 1M tokens</th>
+              <th className="px-3 py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {prices.map((price, index) => (
+              <tr key={index} className="border-t">
+                <td className="px-3 py-1">
+                  <Input
+                    value={price.model}
+                    onChange={(e) => updatePrice(index, { model: e.target.value })}
+                    disabled={disabled}
+                    className="h-8"
+                  />
+                </td>
+                <td className="px-3 py-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={price.inputPerMillion}
+                    onChange={(e) => updatePrice(index, { inputPerMillion: parsePrice(e.target.value) })}
+                    disabled={disabled}
+                    className="h-8"
+                  />
+                </td>
+                <td className="px-3 py-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={price.outputPerMillion}
+                    onChange={(e) => updatePrice(index, { outputPerMillion: parsePrice(e.target.value) })}
+                    disabled={disabled}
+                    className="h-8"
+                  />
+                </td>
+                <td className="px-3 py-1 text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(prices.filter((_, i) => i !== index))}
+                    disabled={disabled}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add model
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_MODEL_PRICES)} disabled={disabled}>
+          <RotateCcw className="h-4 w-4 mr-1" /> Reset to list prices
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PriceTableEditor;
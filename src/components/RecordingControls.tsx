@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Download, Trash2, Upload } from "lucide-react";
+import { RecordingMode } from "@/utils/llmProvider";
+import { clearRecordings, countRecordings, exportRecordings, importRecordings } from "@/utils/responseRecorder";
+
+interface RecordingControlsProps {
+  recordingMode: RecordingMode;
+  onRecordingModeChange: (mode: RecordingMode) => void;
+}
+
+const MODE_DESCRIPTIONS: Record<RecordingMode, string> = {
+  off: "Calls go to the provider and nothing is kept.",
+  record: "Calls go to the provider and every prompt and answer is saved in this browser.",
+  replay: "Calls are answered from saved responses without contacting the provider. Prompts that were never recorded fail."
+};
+
+const RecordingControls: React.FC<RecordingControlsProps> = ({ recordingMode, onRecordingModeChange }) => {
+  const { toast } = useToast();
+  const [recordingCount, setRecordingCount] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshCount = () => {
+    countRecordings()
+      .then(setRecordingCount)
+      .catch(() => setRecordingCount(null));
+  };
+
+  // Recording adds entries while a job runs, so the count is refreshed whenever the mode changes
+  useEffect(refreshCount, [recordingMode]);
+
+  const handleExport = async () => {
+    try {
+      const blob = new Blob([await exportRecordings()], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', 'recorded-responses.json');
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not read the recorded responses",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importRecordings(await file.text());
+      toast({ title: "Recordings imported", description: `Read ${count} recorded responses from ${file.name}.` });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read the file",
+        variant: "destructive",
+      });
+    }
+    refreshCount();
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearRecordings();
+    } catch (error) {
+      console.error("Could not clear recordings:", error);
+    }
+    refreshCount();
+  };
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="recordingMode">Responses</Label>
+      <Select value={recordingMode} onValueChange={(value) => onRecordingModeChange(value as RecordingMode)}>
+        <SelectTrigger id="recordingMode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="off">Live</SelectItem>
+          <SelectItem value="record">Live and record</SelectItem>
+          <SelectItem value="replay">Replay recorded responses</SelectItem>
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-slate-500">
+        {MODE_DESCRIPTIONS[recordingMode]}
+        {recordingCount !== null && ` ${recordingCount} responses recorded.`}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={!recordingCount}>
+          <Download className="h-4 w-4 mr-1" /> Export
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-1" /> Import
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleClear} disabled={!recordingCount}>
+          <Trash2 className="h-4 w-4 mr-1" /> Clear
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RecordingControls;
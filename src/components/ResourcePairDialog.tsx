@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeftRight } from "lucide-react";
+import { RESOURCE_EXTENSIONS } from "@/utils/fileParser";
+import { guessLanguageFromFileName } from "@/utils/languageCodes";
+
+export interface ResourcePair {
+  sourceFile: File;
+  targetFile: File;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+interface ResourcePairDialogProps {
+  // The file the user uploaded; it can end up on either side of the pair
+  file: File | null;
+  onConfirm: (pair: ResourcePair) => void;
+  onCancel: () => void;
+}
+
+const ResourcePairDialog: React.FC<ResourcePairDialogProps> = ({
+  file,
+  onConfirm,
+  onCancel
+}) => {
+  const [otherFile, setOtherFile] = useState<File | null>(null);
+  const [uploadedIsSource, setUploadedIsSource] = useState(true);
+  const [sourceLanguage, setSourceLanguage] = useState("");
+  const [targetLanguage, setTargetLanguage] = useState("");
+
+  useEffect(() => {
+    setOtherFile(null);
+    setUploadedIsSource(true);
+    setSourceLanguage(file ? guessLanguageFromFileName(file.name) : "");
+    setTargetLanguage("");
+  }, [file]);
+
+  if (!file) return null;
+
+  const sourceFile = uploadedIsSource ? file : otherFile;
+  const targetFile = uploadedIsSource ? otherFile : file;
+
+  const handleOtherFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    setOtherFile(selected);
+    const guessed = selected ? guessLanguageFromFileName(selected.name) : "";
+    if (guessed) {
+      if (uploadedIsSource) setTargetLanguage(guessed);
+      else setSourceLanguage(guessed);
+    }
+  };
+
+  const handleSwap = () => {
+    setUploadedIsSource(!uploadedIsSource);
+    setSourceLanguage(targetLanguage);
+    setTargetLanguage(sourceLanguage);
+  };
+
+  const isValid = Boolean(sourceFile && targetFile && sourceLanguage.trim() && targetLanguage.trim());
+
+  const handleConfirm = () => {
+    if (!sourceFile || !targetFile) return;
+    onConfirm({
+      sourceFile,
+      targetFile,
+      sourceLanguage: sourceLanguage.trim(),
+      targetLanguage: targetLanguage.trim()
+    });
+  };
+
+  const renderSide = (side: 'source' | 'target') => {
+    const isUploaded = (side === 'source') === uploadedIsSource;
+    const language = side === 'source' ? sourceLanguage : targetLanguage;
+    const setLanguage = side === 'source' ? setSourceLanguage : setTargetLanguage;
+
+    return (
+      <div className="space-y-2">
+        <Label>{side === 'source' ? "Source file" : "Target file"}</Label>
+        {isUploaded ? (
+          <p className="text-sm text-slate-700 h-10 flex items-center">{file.name}</p>
+        ) : (
+          <Input type="file" accept={RESOURCE_EXTENSIONS.join(',')} onChange={handleOtherFileChange} />
+        )}
+        <Input
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          placeholder={side === 'source' ? "Source language, e.g. en" : "Target language, e.g. de"}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Pair Resource Files</DialogTitle>
+          <DialogDescription>
+            JSON resource files hold one language each. Select the matching file in the other language;
+            entries are aligned by key path.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_auto_1fr] gap-4 items-start">
+          {renderSide('source')}
+          <Button variant="ghost" size="sm" onClick={handleSwap} className="mt-8" title="Swap source and target">
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+          {renderSide('target')}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleConfirm} disabled={!isValid}>Align files</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResourcePairDialog;
@@ -1,55 +1,150 @@
-
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Glossary, TermAttribution } from "@/utils/glossary";
+import { TmxData, selectLanguagePair } from "@/utils/tmxParser";
+import ConcordanceView from "./ConcordanceView";
 
 interface ResultsCardProps {
-  extractedTerms: Array<{sourceTerm: string, targetTerm: string}> | null;
-  onDownload: () => void;
+  glossaries: Glossary[] | null;
+  tmxData: TmxData | null;
+  onDownload: (glossary: Glossary) => void;
 }
 
-const ResultsCard: React.FC<ResultsCardProps> = ({ extractedTerms, onDownload }) => {
-  if (!extractedTerms) return null;
-  
+// Short summary of where a term was found, e.g. "12 TUs · project: P-104, P-220"
+const describeAttribution = (attribution?: TermAttribution): string => {
+  if (!attribution) return "";
+  const props = Object.entries(attribution.props).map(([type, values]) => `${type}: ${values.join(", ")}`);
+  const files = attribution.files.length > 0 ? [`files: ${attribution.files.join(", ")}`] : [];
+  return [`${attribution.occurrences} TU${attribution.occurrences === 1 ? "" : "s"}`, ...props, ...files].join(" · ");
+};
+
+// Tab key and label of a glossary; glossaries of separate batch jobs are told apart by file
+const getGlossaryKey = (glossary: Glossary): string => `${glossary.sourceFile || ""}|${glossary.targetLanguage}`;
+const getGlossaryLabel = (glossary: Glossary): string =>
+  `${glossary.sourceFile ? glossary.sourceFile + ": " : ""}${glossary.sourceLanguage} → ${glossary.targetLanguage}`;
+
+const GlossaryTable: React.FC<{ glossary: Glossary; tmxData: TmxData | null }> = ({ glossary, tmxData }) => {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  // Translation units of this pair, used to show where a term occurs
+  const translationUnits = useMemo(() => {
+    if (!tmxData) return [];
+    const units = selectLanguagePair(tmxData, glossary.targetLanguage).translationUnits;
+    return glossary.sourceFile ? units.filter(unit => unit.metadata?.sourceFile === glossary.sourceFile) : units;
+  }, [tmxData, glossary.targetLanguage, glossary.sourceFile]);
+  const hasAttribution = glossary.terms.some(term => term.attribution);
+
+  return (
+    <div className="border rounded-md overflow-hidden">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Source Term ({glossary.sourceLanguage})
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Target Term ({glossary.targetLanguage})
+            </th>
+            {hasAttribution && (
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Found In
+              </th>
+            )}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {glossary.terms.map((term, index) => (
+            <React.Fragment key={index}>
+              <tr
+                className={translationUnits.length > 0 ? "cursor-pointer hover:bg-gray-50" : undefined}
+                onClick={() => setExpandedIndex(expandedIndex === index ? null : index)}
+              >
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {term.sourceTerm}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {term.targetTerm}
+                </td>
+                {hasAttribution && (
+                  <td className="px-6 py-4 text-xs text-gray-500">
+                    {describeAttribution(term.attribution)}
+                  </td>
+                )}
+              </tr>
+              {expandedIndex === index && translationUnits.length > 0 && (
+                <tr>
+                  <td colSpan={hasAttribution ? 3 : 2} className="px-6 py-3 bg-slate-50">
+                    <ConcordanceView term={term} translationUnits={translationUnits} />
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const ResultsCard: React.FC<ResultsCardProps> = ({ glossaries, tmxData, onDownload }) => {
+  if (!glossaries || glossaries.length === 0) return null;
+
+  const totalTerms = glossaries.reduce((sum, glossary) => sum + glossary.terms.length, 0);
+
+  if (glossaries.length === 1) {
+    const glossary = glossaries[0];
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Extracted Terminology</CardTitle>
+          <CardDescription>
+            {glossary.terms.length} terminology pairs extracted. Click a term to see it in context.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <GlossaryTable glossary={glossary} tmxData={tmxData} />
+        </CardContent>
+        <CardFooter>
+          <Button className="w-full" onClick={() => onDownload(glossary)}>
+            Download as CSV
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>Extracted Terminology</CardTitle>
         <CardDescription>
-          {extractedTerms.length} terminology pairs extracted
+          {totalTerms} terminology pairs extracted across {glossaries.length} glossaries. Click a term to see it in context.
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="border rounded-md overflow-hidden">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Source Term
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Target Term
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {extractedTerms.map((term, index) => (
-                <tr key={index}>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {term.sourceTerm}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {term.targetTerm}
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+        <Tabs defaultValue={getGlossaryKey(glossaries[0])}>
+          <TabsList className="flex-wrap h-auto">
+            {glossaries.map(glossary => (
+              <TabsTrigger key={getGlossaryKey(glossary)} value={getGlossaryKey(glossary)}>
+                {getGlossaryLabel(glossary)} ({glossary.terms.length})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {glossaries.map(glossary => (
+            <TabsContent key={getGlossaryKey(glossary)} value={getGlossaryKey(glossary)} className="space-y-4">
+              <GlossaryTable glossary={glossary} tmxData={tmxData} />
+              <Button className="w-full" onClick={() => onDownload(glossary)}>
+                Download {getGlossaryLabel(glossary)} as CSV
+              </Button>
+            </TabsContent>
+          ))}
+        </Tabs>
       </CardContent>
       <CardFooter>
-        <Button className="w-full" onClick={onDownload}>
-          Download as CSV
+        <Button variant="outline" className="w-full" onClick={() => glossaries.forEach(onDownload)}>
+          Download all glossaries
         </Button>
       </CardFooter>
     </Card>
@@ -1,143 +1,308 @@
 
-import { useEffect, useState } from 'react';
-import { parseTmxFile } from '@/utils/tmxParser';
-import { generatePrompt } from '@/utils/promptGenerator';
-import { callGeminiApi } from '@/utils/geminiApi';
-import { processTmxInChunks } from '@/utils/chunkProcessor';
+import { useEffect } from 'react';
+import { TmxData, selectLanguagePair } from '@/utils/tmxParser';
+import { ChunkCheckpoint, ChunkStatus, PartialExtractionError, processTmxInChunks } from '@/utils/chunkProcessor';
+import { ChunkSizeDecision } from '@/utils/chunkSizer';
+import { Glossary } from '@/utils/glossary';
+import { InlineCodeMode } from '@/utils/segmentMarkup';
+import { RateLimits } from '@/utils/requestScheduler';
+import { ApiErrorKind, ERROR_KIND_LABELS, summarizeErrorKinds, toApiError } from '@/utils/apiErrors';
+import { JobControl, abortable, isCancelled } from '@/utils/jobControl';
+import { TuFilterOptions, applyTuFilter } from '@/utils/tuFilter';
+import { ProviderSettings, TokenUsage } from '@/utils/llmProvider';
+import { resolveProvider } from '@/utils/providerRegistry';
+import { checkProviderHealth } from '@/utils/providerHealth';
+import { ExtractionJob, countDoneUnits, deleteJob, findJob, fingerprintJob, isJobFinished, saveJob, saveJobInput } from '@/utils/jobStore';
 import { toast } from "@/components/ui/use-toast";
-import { GoogleGenAI } from "@google/genai";
 
-// Interface definitions for our terminology data
-interface TerminologyPair {
-  sourceTerm: string;
-  targetTerm: string;
+/**
+ * Data extracted as one job; a batch run as separate jobs has one data set per file
+ */
+export interface ExtractionDataset {
+  tmxData: TmxData;
+  sourceFile?: string;
 }
 
 interface TerminologyExtractorProps {
-  apiKey: string;
+  providerSettings: ProviderSettings;
   modelName: string;
   datasetInfo: string;
-  tmxFile: File;
+  datasets: ExtractionDataset[];
+  targetLanguages: string[];
+  filterOptions?: TuFilterOptions;
   onProgress: (progress: number) => void;
-  onComplete: (terms: TerminologyPair[]) => void;
+  // Chunk statuses of the job in progress, with a label naming the job when there are several
+  onChunkStatus?: (statuses: ChunkStatus[], jobLabel: string) => void;
+  // Chunk size changes of the job in progress, labelled the same way
+  onChunkSizeDecision?: (decision: ChunkSizeDecision, jobLabel: string) => void;
+  // Tokens of every answer, as the API reports them
+  onUsage?: (usage: TokenUsage) => void;
+  onComplete: (glossaries: Glossary[]) => void;
+  // Receives the glossaries extracted before the job was cancelled
+  onCancelled: (glossaries: Glossary[]) => void;
   onError: (error: string) => void;
+  jobControl?: JobControl;
+  // Job the user chose to restore; its checkpoint is used when the run has the same fingerprint
+  resumeJobId?: string;
   maxTokensPerChunk?: number;
+  inputTokenLimit?: number;
+  adaptiveChunkSize?: boolean;
+  inlineCodeMode?: InlineCodeMode;
+  includeMetadata?: boolean;
+  concurrency?: number;
+  rateLimits?: RateLimits;
 }
 
 const TerminologyExtractor = ({ 
-  apiKey, 
+  providerSettings, 
   modelName, 
   datasetInfo, 
-  tmxFile,
+  datasets,
+  targetLanguages,
+  filterOptions,
   onProgress,
+  onChunkStatus,
+  onChunkSizeDecision,
+  onUsage,
   onComplete,
+  onCancelled,
   onError,
-  maxTokensPerChunk = 100000
+  jobControl,
+  resumeJobId,
+  maxTokensPerChunk = 100000,
+  inputTokenLimit,
+  adaptiveChunkSize = true,
+  inlineCodeMode = 'strip',
+  includeMetadata = false,
+  concurrency = 1,
+  rateLimits
 }: TerminologyExtractorProps) => {
-  const [allTerms, setAllTerms] = useState<TerminologyPair[]>([]);
-  
   useEffect(() => {
     extractTerminology();
   }, []);
   
   const extractTerminology = async () => {
     try {
-      // Step 1: Parse TMX file
+      // Step 1: Filter and verify we have translation units for every selected pair
       onProgress(10);
-      console.log("Starting TMX parsing...");
       
-      let tmxData;
-      try {
-        tmxData = await parseTmxFile(tmxFile);
-        console.log("TMX parsing complete:", {
-          sourceLanguage: tmxData.sourceLanguage,
-          targetLanguage: tmxData.targetLanguage,
-          unitCount: tmxData.translationUnits.length
-        });
-      } catch (parseError: any) {
-        console.error("TMX parsing error:", parseError);
+      if (targetLanguages.length === 0) {
+        throw new Error("No language pair selected");
+      }
+      
+      // One job per data set and selected target language it contains
+      const jobs = datasets.flatMap(dataset =>
+        targetLanguages
+          .filter(language => dataset.tmxData.targetLanguages.includes(language))
+          .map(language => {
+            const pairData = selectLanguagePair(dataset.tmxData, language);
+            return {
+              pairData: filterOptions ? applyTuFilter(pairData, filterOptions) : pairData,
+              sourceFile: dataset.sourceFile
+            };
+          })
+      );
+      jobs.forEach(({ pairData, sourceFile }) => {
+        console.log(`${sourceFile ? sourceFile + ": " : ""}${pairData.sourceLanguage} → ${pairData.targetLanguage}: ${pairData.translationUnits.length} units after filtering`);
+      });
+      
+      const emptyJob = jobs.find(job => job.pairData.translationUnits.length === 0);
+      if (emptyJob && datasets.length === 1) {
+        const emptyPair = emptyJob.pairData;
+        console.error("No translation units found for", emptyPair.targetLanguage);
         toast({
-          title: "File parsing error",
-          description: "Could not parse the TMX file. Please check the file format.",
+          title: "Empty language pair",
+          description: `No translation units left for ${emptyPair.sourceLanguage} → ${emptyPair.targetLanguage}. Try relaxing the filters.`,
           variant: "destructive",
         });
-        throw new Error(`Failed to parse TMX file: ${parseError.message}`);
+        throw new Error(`No translation units left for ${emptyPair.sourceLanguage} → ${emptyPair.targetLanguage}`);
       }
       
-      // Verify we have translation units
-      if (!tmxData.translationUnits || tmxData.translationUnits.length === 0) {
-        console.error("No translation units found in TMX file");
+      // In a batch of separate jobs, files left empty by the filters are skipped
+      const languagePairs = jobs.filter(job => job.pairData.translationUnits.length > 0);
+      if (languagePairs.length === 0) {
+        throw new Error("No translation units left in any file. Try relaxing the filters.");
+      }
+      if (languagePairs.length < jobs.length) {
         toast({
-          title: "Empty TMX file",
-          description: "No translation units found in the TMX file.",
-          variant: "destructive",
+          title: "Files skipped",
+          description: `${jobs.length - languagePairs.length} file and language pair jobs have no translation units left and are skipped.`,
         });
-        throw new Error("No translation units found in TMX file");
       }
       
-      // Step 2: Do a quick test API call to verify connectivity
+      // Step 2: Check the key and model without generating anything; a recent check is reused
       onProgress(15);
-      console.log("Testing API connectivity with model:", modelName);
+      console.log("Checking provider health with model:", modelName);
+      
+      const provider = resolveProvider(providerSettings);
       
       try {
-        // Test the API connection by creating a minimal test call
-        const genAI = new GoogleGenAI(apiKey);
-        const testModel = genAI.getGenerativeModel(modelName.replace(/^models\//, ''));
-        
-        // Create a minimal prompt for testing
-        const testPrompt = `
-Extract terminology pairs from this simple example:
-SOURCE: "The computer processes data quickly."
-TARGET: "L'ordinateur traite les données rapidement."
-`;
-        const testResult = await callGeminiApi(apiKey, modelName, testPrompt);
-        console.log("API test result:", testResult);
-        
-        if (testResult.length === 0) {
-          console.warn("API test returned no results, proceeding with caution.");
-          toast({
-            title: "API Warning",
-            description: "Initial API test didn't return any results. The extraction may not work correctly.",
-          });
-        } else {
-          console.log("API test successful");
-          toast({
-            title: "API Connection Success",
-            description: "Successfully connected to the Gemini API.",
-          });
+        const health = await abortable(checkProviderHealth(providerSettings, modelName), jobControl?.signal);
+        console.log(`Provider health check passed by ${health.method} in ${health.latencyMs} ms`);
+      } catch (checkError) {
+        if (isCancelled(checkError, jobControl?.signal)) {
+          onCancelled([]);
+          return;
         }
-      } catch (testError: any) {
-        console.error("API test error:", testError);
+        console.error("Provider health check error:", checkError);
+        const apiError = toApiError(checkError);
         toast({
-          title: "API Connection Error",
-          description: testError.message || "Could not connect to the Gemini API. Please check your API key and selected model.",
+          title: `API Connection Error (${ERROR_KIND_LABELS[apiError.kind]})`,
+          description: apiError.message || `Could not connect to ${provider.label}. Please check your API key and selected model.`,
           variant: "destructive",
         });
-        throw new Error(`API connectivity test failed: ${testError.message}`);
+        throw new Error(`API connectivity check failed: ${apiError.message}`);
       }
       
-      // Step 3: Process TMX in chunks and extract terminology
+      // Step 3: Process each language pair in chunks and extract terminology
       onProgress(20);
-      console.log("Starting chunk processing with model:", modelName);
+      console.log("Starting chunk processing with model:", modelName, "for", languagePairs.length, "language pairs");
+      
+      const completedGlossaries: Glossary[] = [];
+      // Error kinds of the chunks that gave no terms, across all pairs
+      const chunkErrorKinds: ApiErrorKind[] = [];
+      let failedChunkCount = 0;
       
       try {
-        const result = await processTmxInChunks({
-          tmxData,
-          datasetInfo,
-          apiKey, 
-          modelName,
-          maxTokensPerChunk,
-          onChunkProgress: (chunkProgress) => {
-            // Map chunk progress (0-100) to overall progress (20-90)
-            const overallProgress = 20 + Math.floor(chunkProgress * 0.7);
-            onProgress(overallProgress);
+        for (let i = 0; i < languagePairs.length; i++) {
+          const { pairData, sourceFile } = languagePairs[i];
+          const jobLabel = languagePairs.length > 1
+            ? `${sourceFile ? sourceFile + ": " : ""}${pairData.sourceLanguage} → ${pairData.targetLanguage} (${i + 1}/${languagePairs.length})`
+            : "";
+          console.log(`Extracting ${sourceFile ? sourceFile + ": " : ""}${pairData.sourceLanguage} → ${pairData.targetLanguage} (${i + 1}/${languagePairs.length})`);
+          
+          // Checkpoints are best effort: without IndexedDB the job simply cannot be resumed
+          const jobId = await fingerprintJob(pairData, {
+            providerId: providerSettings.providerId,
+            modelName,
+            datasetInfo,
+            inlineCodeMode,
+            includeMetadata
+          });
+          const earlierJob = await findJob(jobId).catch(() => undefined);
+          // Only a job the user restored goes on; any other checkpoint of the same job is started over
+          const savedJob = jobId === resumeJobId ? earlierJob : undefined;
+          if (earlierJob && !savedJob) {
+            console.log(`Starting job ${jobId} over instead of resuming it`);
+            toast({
+              title: "Starting over",
+              description: `An unfinished extraction of ${pairData.sourceLanguage} → ${pairData.targetLanguage} is replaced. Restore unfinished jobs before extracting to continue them instead.`,
+            });
           }
-        });
+          if (savedJob) {
+            console.log(`Resuming job ${jobId} with ${countDoneUnits(savedJob)} of ${savedJob.totalUnits} units done`);
+            toast({
+              title: "Resuming earlier extraction",
+              description: `${countDoneUnits(savedJob)} of ${savedJob.totalUnits} units of ${pairData.sourceLanguage} → ${pairData.targetLanguage} were already processed and are not sent again.`,
+            });
+          } else {
+            await saveJobInput(jobId, pairData.translationUnits).catch(error => console.error("Could not save job input:", error));
+          }
+          const job: ExtractionJob = {
+            id: jobId,
+            sourceFile,
+            sourceLanguage: pairData.sourceLanguage,
+            targetLanguage: pairData.targetLanguage,
+            settings: {
+              providerId: providerSettings.providerId,
+              modelName,
+              datasetInfo,
+              inlineCodeMode,
+              includeMetadata,
+              maxTokensPerChunk
+            },
+            totalUnits: pairData.translationUnits.length,
+            chunks: savedJob?.chunks || [],
+            createdAt: savedJob?.createdAt || new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+          };
+          
+          let lastStatuses: ChunkStatus[] = [];
+          const result = await processTmxInChunks({
+            tmxData: pairData,
+            datasetInfo,
+            providerSettings,
+            modelName,
+            maxTokensPerChunk,
+            inputTokenLimit,
+            adaptiveChunkSize,
+            onChunkSizeDecision: (decision) => onChunkSizeDecision?.(decision, jobLabel),
+            onUsage,
+            inlineCodeMode,
+            includeMetadata,
+            concurrency,
+            rateLimits,
+            jobControl,
+            checkpoint: savedJob?.chunks,
+            onCheckpoint: (chunks: ChunkCheckpoint[]) => {
+              job.chunks = chunks;
+              saveJob(job).catch(error => console.error("Could not save job checkpoint:", error));
+            },
+            onChunkStatus: (statuses) => {
+              lastStatuses = statuses;
+              onChunkStatus?.(statuses, jobLabel);
+            },
+            onChunkProgress: (chunkProgress) => {
+              // Map chunk progress (0-100) of this pair to overall progress (20-90)
+              const pairProgress = (i + chunkProgress / 100) / languagePairs.length;
+              const overallProgress = 20 + Math.floor(pairProgress * 70);
+              onProgress(overallProgress);
+            }
+          }).catch(error => {
+            // A job stopped by a fatal error still shows the terms of its finished chunks
+            if (error instanceof PartialExtractionError && error.terms.length > 0) {
+              completedGlossaries.push({
+                sourceLanguage: pairData.sourceLanguage,
+                targetLanguage: pairData.targetLanguage,
+                sourceFile,
+                terms: error.terms
+              });
+            }
+            throw error;
+          });
+          
+          console.log(`Chunk processing complete for ${pairData.targetLanguage}, extracted unique terms:`, result.length);
+          
+          // Jobs with chunks left to do stay saved so they can be resumed
+          if (isJobFinished(job)) {
+            await deleteJob(jobId).catch(error => console.error("Could not delete finished job:", error));
+          }
+          
+          const failedStatuses = lastStatuses.filter(status => status.state === 'failed');
+          failedChunkCount += failedStatuses.length;
+          failedStatuses.forEach(status => status.error && chunkErrorKinds.push(status.error.kind));
+          
+          completedGlossaries.push({
+            sourceLanguage: pairData.sourceLanguage,
+            targetLanguage: pairData.targetLanguage,
+            sourceFile,
+            terms: result
+          });
+          
+          // The cancelled pair keeps the terms of its finished chunks, later pairs are not started
+          if (jobControl?.signal.aborted) break;
+        }
         
-        console.log("Chunk processing complete, extracted unique terms:", result.length);
+        if (jobControl?.signal.aborted) {
+          console.log("Extraction cancelled with", completedGlossaries.length, "glossaries");
+          onCancelled(completedGlossaries);
+          return;
+        }
+        
+        if (failedChunkCount > 0) {
+          const emptyCount = failedChunkCount - chunkErrorKinds.length;
+          const reasons = [summarizeErrorKinds(chunkErrorKinds), emptyCount > 0 ? `${emptyCount} × No terms returned` : '']
+            .filter(Boolean)
+            .join(', ');
+          toast({
+            title: `${failedChunkCount} chunks failed`,
+            description: `The glossary is missing the terms of these chunks (${reasons}). See the list under the progress bar.`,
+            variant: "destructive",
+          });
+        }
         
         // Check if we got at least some terms
-        if (result.length === 0) {
+        if (completedGlossaries.every(glossary => glossary.terms.length === 0)) {
           toast({
             title: "No terms extracted",
             description: "The process completed, but no terminology was extracted. Try adjusting the dataset info or using a different model.",
@@ -146,15 +311,27 @@ TARGET: "L'ordinateur traite les données rapidement."
         
         // Step 4: Process and return results
         onProgress(90);
-        onComplete(result);
+        onComplete(completedGlossaries);
         onProgress(100);
       } catch (processingError: any) {
         console.error("Error in terminology extraction processing:", processingError);
+        // Fatal API errors such as a rejected key stop the job and are named by their kind
+        const apiError = toApiError(processingError);
         toast({
-          title: "Processing error",
+          title: apiError.kind === 'unknown' ? "Processing error" : `${ERROR_KIND_LABELS[apiError.kind]} error`,
           description: processingError.message || "An error occurred while processing the terminology.",
           variant: "destructive",
         });
+        // Hand back the glossaries of the pairs that did complete, and the terms of the stopped pair
+        if (completedGlossaries.length > 0) {
+          console.log("Returning partial results despite error:", completedGlossaries.length, "glossaries");
+          toast({
+            title: "Partial results available",
+            description: `We encountered an error, but the terms extracted before it are kept in ${completedGlossaries.length} of ${languagePairs.length} glossaries.`,
+          });
+          onComplete(completedGlossaries);
+          return;
+        }
         throw new Error(`Processing error: ${processingError.message}`);
       }
       
@@ -162,15 +339,6 @@ TARGET: "L'ordinateur traite les données rapidement."
       console.error("Error in terminology extraction:", error);
       // Show a more user-friendly error message
       onError(error.message || 'Failed to extract terminology');
-      // Still provide any partial results if available
-      if (allTerms.length > 0) {
-        console.log("Returning partial results despite error:", allTerms.length, "terms");
-        toast({
-          title: "Partial results available",
-          description: `We encountered an error, but ${allTerms.length} terms were successfully extracted.`,
-        });
-        onComplete(allTerms);
-      }
     }
   };
   
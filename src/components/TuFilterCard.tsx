@@ -0,0 +1,260 @@
+import React, { useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Plus, X } from "lucide-react";
+import { TmxData, selectLanguagePair } from "@/utils/tmxParser";
+import { estimateTokens } from "@/utils/llmProvider";
+import {
+  ATTRIBUTE_FIELDS,
+  PropFilterRule,
+  TuFilterOptions,
+  TuFilterReason,
+  collectPropValues,
+  filterTranslationUnits
+} from "@/utils/tuFilter";
+
+interface TuFilterCardProps {
+  tmxData: TmxData | null;
+  selectedTargetLanguages: string[];
+  filterOptions: TuFilterOptions;
+  onFilterOptionsChange: (options: TuFilterOptions) => void;
+  disabled?: boolean;
+}
+
+const REASON_LABELS: Record<TuFilterReason, string> = {
+  date: "outside date range",
+  prop: "prop rules",
+  length: "segment length",
+  numeric: "numbers only",
+  duplicate: "exact duplicates",
+  nearDuplicate: "near duplicates"
+};
+
+const TuFilterCard: React.FC<TuFilterCardProps> = ({
+  tmxData,
+  selectedTargetLanguages,
+  filterOptions,
+  onFilterOptionsChange,
+  disabled = false
+}) => {
+  const propValues = useMemo(() => (tmxData ? collectPropValues(tmxData) : {}), [tmxData]);
+  const fields = [...Object.keys(propValues), ...ATTRIBUTE_FIELDS];
+
+  // Live preview of what the filters leave for the selected language pairs
+  const preview = useMemo(() => {
+    if (!tmxData) return null;
+    let totalUnits = 0;
+    let remainingUnits = 0;
+    let estimatedTokens = 0;
+    const removed: Partial<Record<TuFilterReason, number>> = {};
+
+    selectedTargetLanguages.forEach(language => {
+      const units = selectLanguagePair(tmxData, language).translationUnits;
+      const result = filterTranslationUnits(units, filterOptions);
+      totalUnits += units.length;
+      remainingUnits += result.units.length;
+      result.units.forEach(unit => {
+        estimatedTokens += estimateTokens(unit.source + unit.target);
+      });
+      Object.entries(result.removed).forEach(([reason, count]) => {
+        removed[reason as TuFilterReason] = (removed[reason as TuFilterReason] || 0) + count;
+      });
+    });
+
+    return { totalUnits, remainingUnits, estimatedTokens, removed };
+  }, [tmxData, selectedTargetLanguages, filterOptions]);
+
+  const update = (changes: Partial<TuFilterOptions>) => {
+    onFilterOptionsChange({ ...filterOptions, ...changes });
+  };
+
+  const parseOptionalNumber = (value: string): number | undefined => {
+    const parsed = parseInt(value);
+    return !isNaN(parsed) && parsed > 0 ? parsed : undefined;
+  };
+
+  const updateRule = (index: number, changes: Partial<PropFilterRule>) => {
+    update({
+      propRules: filterOptions.propRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    });
+  };
+
+  const addRule = () => {
+    update({ propRules: [...filterOptions.propRules, { field: fields[0] || "tuid", value: "", mode: 'include' }] });
+  };
+
+  const removeRule = (index: number) => {
+    update({ propRules: filterOptions.propRules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Step 4: Filter Translation Units</CardTitle>
+        <CardDescription>Narrow down which translation units are sent to the model</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="changedAfter">Changed on or after</Label>
+              <Input
+                id="changedAfter"
+                type="date"
+                value={filterOptions.changedAfter || ""}
+                onChange={(e) => update({ changedAfter: e.target.value || undefined })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="changedBefore">Changed on or before</Label>
+              <Input
+                id="changedBefore"
+                type="date"
+                value={filterOptions.changedBefore || ""}
+                onChange={(e) => update({ changedBefore: e.target.value || undefined })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="minLength">Minimum source length (characters)</Label>
+              <Input
+                id="minLength"
+                type="number"
+                min={0}
+                value={filterOptions.minLength ?? ""}
+                onChange={(e) => update({ minLength: parseOptionalNumber(e.target.value) })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="maxLength">Maximum source length (characters)</Label>
+              <Input
+                id="maxLength"
+                type="number"
+                min={0}
+                value={filterOptions.maxLength ?? ""}
+                onChange={(e) => update({ maxLength: parseOptionalNumber(e.target.value) })}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="removeExactDuplicates"
+                checked={filterOptions.removeExactDuplicates}
+                onCheckedChange={(checked) => update({ removeExactDuplicates: checked })}
+                disabled={disabled}
+              />
+              <Label htmlFor="removeExactDuplicates">Remove exact duplicates</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="removeNearDuplicates"
+                checked={filterOptions.removeNearDuplicates}
+                onCheckedChange={(checked) => update({ removeNearDuplicates: checked })}
+                disabled={disabled}
+              />
+              <Label htmlFor="removeNearDuplicates">Remove near duplicates</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="excludeNumericOnly"
+                checked={filterOptions.excludeNumericOnly}
+                onCheckedChange={(checked) => update({ excludeNumericOnly: checked })}
+                disabled={disabled}
+              />
+              <Label htmlFor="excludeNumericOnly">Skip numbers-only segments</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <Label>Prop and attribute rules</Label>
+              <Button variant="outline" size="sm" onClick={addRule} disabled={disabled || !tmxData}>
+                <Plus className="h-4 w-4 mr-1" /> Add rule
+              </Button>
+            </div>
+            {filterOptions.propRules.map((rule, index) => (
+              <div key={index} className="flex gap-2 items-center">
+                <Select
+                  value={rule.mode}
+                  onValueChange={(mode) => updateRule(index, { mode: mode as PropFilterRule['mode'] })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="include">Only keep</SelectItem>
+                    <SelectItem value="exclude">Exclude</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={rule.field}
+                  onValueChange={(field) => updateRule(index, { field })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue placeholder="Field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fields.map(field => (
+                      <SelectItem key={field} value={field}>{field}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={rule.value}
+                  onChange={(e) => updateRule(index, { value: e.target.value })}
+                  placeholder="Value"
+                  list={`prop-values-${index}`}
+                  className="flex-1"
+                  disabled={disabled}
+                />
+                <datalist id={`prop-values-${index}`}>
+                  {(propValues[rule.field] || []).map(value => (
+                    <option key={value} value={value} />
+                  ))}
+                </datalist>
+                <Button variant="ghost" size="sm" onClick={() => removeRule(index)} disabled={disabled}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {filterOptions.propRules.length === 0 && (
+              <p className="text-xs text-slate-500">
+                No rules: units are kept regardless of their props, tuid or creation/change user.
+              </p>
+            )}
+          </div>
+
+          {preview && (
+            <div className="rounded-md border bg-slate-50 p-3 text-sm">
+              <p className="font-medium text-slate-800">
+                {preview.remainingUnits.toLocaleString()} of {preview.totalUnits.toLocaleString()} units remain
+                {" "}(~{preview.estimatedTokens.toLocaleString()} tokens)
+              </p>
+              {Object.entries(preview.removed).some(([, count]) => count > 0) && (
+                <p className="text-xs text-slate-500 mt-1">
+                  Removed: {Object.entries(preview.removed)
+                    .filter(([, count]) => count > 0)
+                    .map(([reason, count]) => `${count.toLocaleString()} ${REASON_LABELS[reason as TuFilterReason]}`)
+                    .join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TuFilterCard;
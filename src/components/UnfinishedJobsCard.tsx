@@ -0,0 +1,64 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { History, Trash2 } from "lucide-react";
+import { ExtractionJob, countDoneUnits } from "@/utils/jobStore";
+
+interface UnfinishedJobsCardProps {
+  jobs: ExtractionJob[];
+  onRestore: (job: ExtractionJob) => void;
+  onDiscard: (job: ExtractionJob) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Offers the extraction jobs that were interrupted before all their chunks were done
+ */
+const UnfinishedJobsCard: React.FC<UnfinishedJobsCardProps> = ({ jobs, onRestore, onDiscard, disabled = false }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <Card className="border-amber-300">
+      <CardHeader>
+        <CardTitle>Unfinished Extractions</CardTitle>
+        <CardDescription>
+          These jobs were interrupted. Restore one to load its data and settings, then extract again to process only
+          the chunks that are left.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y rounded-md border">
+          {jobs.map(job => {
+            const doneChunks = job.chunks.filter(chunk => chunk.state === 'done').length;
+            return (
+              <li key={job.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium break-all">
+                    {job.sourceFile ? `${job.sourceFile}: ` : ""}{job.sourceLanguage} → {job.targetLanguage}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {countDoneUnits(job).toLocaleString()} of {job.totalUnits.toLocaleString()} units done
+                    in {doneChunks} {doneChunks === 1 ? "chunk" : "chunks"}, {job.settings.modelName},
+                    {" "}last saved {new Date(job.updatedAt).toLocaleString()}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onRestore(job)} disabled={disabled}>
+                    <History className="mr-1 h-4 w-4" />
+                    Restore
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onDiscard(job)} disabled={disabled}>
+                    <Trash2 className="mr-1 h-4 w-4" />
+                    Discard
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnfinishedJobsCard;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronRight } from "lucide-react";
+import {
+  ISSUE_LABELS,
+  ValidationIssueCode,
+  ValidationReport,
+  describeIssueLocation
+} from "@/utils/validationReport";
+
+interface ValidationReportPanelProps {
+  // One report per uploaded file; reports without issues are not shown
+  reports: ValidationReport[];
+}
+
+const ReportDetails: React.FC<{ report: ValidationReport; showFileName: boolean }> = ({ report, showFileName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const issueTotal = report.errorCount + report.warningCount;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="rounded-md border">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-start gap-2 h-auto py-2 text-left">
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <span className="text-sm font-medium flex-1 break-all">
+            {showFileName ? `${report.fileName}: ` : "Validation report: "}
+            {report.errorCount} errors, {report.warningCount} warnings
+            {report.skippedUnits > 0 && `, ${report.skippedUnits.toLocaleString()} units skipped`}
+          </span>
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-2">
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(report.counts) as ValidationIssueCode[]).map(code => (
+            <Badge key={code} variant="outline">
+              {ISSUE_LABELS[code]}: {report.counts[code]?.toLocaleString()}
+            </Badge>
+          ))}
+        </div>
+        <ul className="max-h-64 overflow-auto text-sm space-y-1">
+          {report.issues.map((issue, index) => (
+            <li key={index} className="flex gap-2">
+              {issue.severity === 'error'
+                ? <AlertCircle className="h-4 w-4 shrink-0 text-red-600 mt-0.5" />
+                : <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600 mt-0.5" />}
+              <span>
+                {describeIssueLocation(issue) && (
+                  <span className="text-slate-500">{describeIssueLocation(issue)}: </span>
+                )}
+                {issue.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+        {report.issues.length < issueTotal && (
+          <p className="text-xs text-slate-500">
+            Showing the first {report.issues.length} of {issueTotal.toLocaleString()} issues.
+          </p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const ValidationReportPanel: React.FC<ValidationReportPanelProps> = ({ reports }) => {
+  const reportsWithIssues = reports.filter(report => report.errorCount + report.warningCount > 0);
+  if (reportsWithIssues.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      <p className="text-sm text-slate-600">
+        Problems were found while reading. Units that could not be used are left out of the extraction.
+      </p>
+      {reportsWithIssues.map(report => (
+        <ReportDetails key={report.fileName} report={report} showFileName={reports.length > 1} />
+      ))}
+    </div>
+  );
+};
+
+export default ValidationReportPanel;
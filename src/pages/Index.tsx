@@ -1,5 +1,5 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useToast } from "@/components/ui/use-toast";
 import Header from "@/components/Header";
 import ApiKeyCard from "@/components/ApiKeyCard";
@@ -9,27 +9,80 @@ import ExtractCard from "@/components/ExtractCard";
 import ResultsCard from "@/components/ResultsCard";
 import ApiStatusAlerts from "@/components/ApiStatusAlerts";
 import DebugPanel from "@/components/DebugPanel";
-
-interface GeminiModel {
-  name: string;
-  displayName: string;
-  description?: string;
-}
+import UnfinishedJobsCard from "@/components/UnfinishedJobsCard";
+import TuFilterCard from "@/components/TuFilterCard";
+import ColumnMappingDialog from "@/components/ColumnMappingDialog";
+import ResourcePairDialog, { ResourcePair } from "@/components/ResourcePairDialog";
+import AlignmentReviewDialog, { PendingAlignment } from "@/components/AlignmentReviewDialog";
+import { DocumentAlignmentRequest } from "@/components/DocumentAlignmentForm";
+import { ExtractionDataset } from "@/components/TerminologyExtractor";
+import { TmxData, translationUnitsToTmxData } from "@/utils/tmxParser";
+import { isResourceFile, isSpreadsheetFile, parseBilingualFile } from "@/utils/fileParser";
+import { parseJsonResourcePair } from "@/utils/jsonResourceParser";
+import { readDocumentParagraphs } from "@/utils/documentReader";
+import { BatchFile, BatchMode, expandArchives, mergeBatchFiles, parseBatchFiles } from "@/utils/batchUpload";
+import { AUTO_ENCODING, resolveEncoding } from "@/utils/encoding";
+import { LanguageGrouping } from "@/utils/languageCodes";
+import { ValidationReport, createValidationReport } from "@/utils/validationReport";
+import { SUPPORTED_EXTENSIONS, getFileExtension } from "@/utils/fileParser";
+import { AlignedPair, alignSentences, alignedPairsToTmxData, refineAlignmentWithLlm, splitSentences } from "@/utils/sentenceAligner";
+import { ColumnMapping, SpreadsheetData, readSpreadsheetFile, spreadsheetToTmxData } from "@/utils/spreadsheetParser";
+import { Glossary, glossaryToCsv, getGlossaryFileName } from "@/utils/glossary";
+import { DEFAULT_TU_FILTER_OPTIONS, TuFilterOptions } from "@/utils/tuFilter";
+import { LlmModel, ProviderId, ProviderSettings, RecordingMode } from "@/utils/llmProvider";
+import { DEFAULT_PROVIDER_ID, getProvider, isProviderConfigured, resolveProvider } from "@/utils/providerRegistry";
+import { ExtractionJob, deleteJob, isJobFinished, listJobs, loadJobInput } from "@/utils/jobStore";
 
 const Index = () => {
   const { toast } = useToast();
+  const [providerId, setProviderId] = useState<ProviderId>(DEFAULT_PROVIDER_ID);
   const [apiKey, setApiKey] = useState("");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>('off');
   const [selectedModel, setSelectedModel] = useState("");
   const [datasetInfo, setDatasetInfo] = useState("");
   const [tmxFile, setTmxFile] = useState<File | null>(null);
+  const [tmxData, setTmxData] = useState<TmxData | null>(null);
+  const [isParsingFile, setIsParsingFile] = useState(false);
+  const [parseProgress, setParseProgress] = useState(0);
+  const [pendingSpreadsheet, setPendingSpreadsheet] = useState<SpreadsheetData | null>(null);
+  const [pendingResourceFile, setPendingResourceFile] = useState<File | null>(null);
+  const [pendingAlignment, setPendingAlignment] = useState<PendingAlignment | null>(null);
+  const [batchFiles, setBatchFiles] = useState<BatchFile[]>([]);
+  const [batchMode, setBatchMode] = useState<BatchMode>('merged');
+  // Encoding chosen in the upload card, and the one the current file was decoded with
+  const [encoding, setEncoding] = useState(AUTO_ENCODING);
+  const [fileEncoding, setFileEncoding] = useState<string | null>(null);
+  const [languageGrouping, setLanguageGrouping] = useState<LanguageGrouping>('variant');
+  // Problems found while reading a single uploaded file; batch files carry their own
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
+  const [selectedTargetLanguages, setSelectedTargetLanguages] = useState<string[]>([]);
+  const [filterOptions, setFilterOptions] = useState<TuFilterOptions>(DEFAULT_TU_FILTER_OPTIONS);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [extractedTerms, setExtractedTerms] = useState<null | Array<{sourceTerm: string, targetTerm: string}>>(null);
+  const [extractedGlossaries, setExtractedGlossaries] = useState<Glossary[] | null>(null);
   const [isApiKeyValid, setIsApiKeyValid] = useState(false);
-  const [availableModels, setAvailableModels] = useState<GeminiModel[]>([]);
+  const [availableModels, setAvailableModels] = useState<LlmModel[]>([]);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
   const [apiError, setApiError] = useState<string | null>(null);
   const [debugMessages, setDebugMessages] = useState<string[]>([]);
+  const [unfinishedJobs, setUnfinishedJobs] = useState<ExtractionJob[]>([]);
+  // The job the user restored last; only it is resumed from its checkpoint
+  const [restoredJob, setRestoredJob] = useState<ExtractionJob | null>(null);
+
+  const refreshUnfinishedJobs = async () => {
+    try {
+      const jobs = await listJobs();
+      setUnfinishedJobs(jobs.filter(job => !isJobFinished(job)));
+    } catch (error) {
+      console.error("Could not list saved jobs:", error);
+    }
+  };
+
+  // Jobs left by a crash or a closed tab are offered once the page loads
+  useEffect(() => {
+    refreshUnfinishedJobs();
+  }, []);
 
   // Override console.log to capture debug messages
   useEffect(() => {
@@ -58,43 +111,22 @@ const Index = () => {
     };
   }, []);
 
+  const providerSettings: ProviderSettings = { providerId, apiKey, baseUrl, recordingMode };
+  const provider = resolveProvider(providerSettings);
+
   const fetchAvailableModels = async (key: string) => {
     setIsLoadingModels(true);
     setApiError(null);
     
     try {
-      console.log("Fetching available models...");
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models?key=${key}`
-      );
-      
-      // Log the response status for debugging
-      console.log(`API Response status: ${response.status}`);
+      const models = await provider.listModels({ ...providerSettings, apiKey: key });
       
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error("API Error:", errorData);
-        throw new Error(errorData.error?.message || `API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      console.log(`Found ${data.models?.length || 0} models in response`);
-      
-      // Filter to include only Gemini models
-      const geminiModels = data.models
-        .filter((model: any) => model.name.includes("gemini"))
-        .map((model: any) => ({
-          name: model.name,
-          displayName: model.displayName || formatModelName(model.name),
-          description: model.description
-        }));
-      
-      setAvailableModels(geminiModels);
+      setAvailableModels(models);
       setIsApiKeyValid(true);
       
       toast({
-        title: "API Key Valid",
-        description: `Found ${geminiModels.length} available Gemini models.`,
+        title: provider.requiresApiKey ? "API Key Valid" : "Connected",
+        description: `Found ${models.length} available ${provider.label} models.`,
       });
       
     } catch (error: any) {
@@ -103,7 +135,7 @@ const Index = () => {
       setApiError(error.message || "Failed to fetch available models");
       
       toast({
-        title: "API Key Invalid",
+        title: provider.requiresApiKey ? "API Key Invalid" : "Connection failed",
         description: error.message || "Could not fetch available models",
         variant: "destructive",
       });
@@ -113,25 +145,14 @@ const Index = () => {
     }
   };
 
-  // Format model name for display if no displayName is provided
-  const formatModelName = (name: string): string => {
-    const baseName = name.split('/').pop() || name;
-    return baseName
-      .replace('gemini-', 'Gemini ')
-      .replace(/-/g, ' ')
-      .split(' ')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  };
-
   const validateApiKey = (key: string) => {
-    // Only proceed if key has reasonable length
-    if (key && key.length >= 30) {
+    // Only proceed if key has reasonable length; local servers are asked for their models without one
+    if (!provider.requiresApiKey || (key && key.length >= provider.minApiKeyLength)) {
       fetchAvailableModels(key);
     } else {
       setIsApiKeyValid(false);
       if (key) {
-        setApiError("API key is too short. Gemini API keys are typically longer than 30 characters.");
+        setApiError(`API key is too short. ${provider.label} API keys are typically at least ${provider.minApiKeyLength} characters long.`);
         toast({
           title: "Invalid API Key",
           description: "The API key seems to be incomplete or invalid.",
@@ -142,19 +163,366 @@ const Index = () => {
     }
   };
 
-  const handleFileUpload = (file: File) => {
+  const handleProviderChange = (value: ProviderId) => {
+    // Keys and models of one provider mean nothing to another
+    setProviderId(value);
+    setIsApiKeyValid(false);
+    setAvailableModels([]);
+    setSelectedModel("");
+    setApiError(null);
+  };
+
+  const handleRecordingModeChange = (mode: RecordingMode) => {
+    // Replay lists the recorded models instead of the provider's, so the model list is fetched again
+    setRecordingMode(mode);
+    setIsApiKeyValid(false);
+    setAvailableModels([]);
+    setSelectedModel("");
+    setApiError(null);
+  };
+
+  const handleRestoreJob = async (job: ExtractionJob) => {
+    try {
+      const units = await loadJobInput(job.id);
+      if (!units) {
+        throw new Error("The translation units of this job were not saved.");
+      }
+
+      setTmxFile(null);
+      setBatchFiles([]);
+      setValidationReport(null);
+      setExtractedGlossaries(null);
+      setTmxData(translationUnitsToTmxData(job.sourceLanguage, job.targetLanguage, units));
+      setSelectedTargetLanguages([job.targetLanguage]);
+      // The saved units were filtered before, so filtering them again must not change them
+      setFilterOptions({ ...DEFAULT_TU_FILTER_OPTIONS, removeExactDuplicates: false, excludeNumericOnly: false });
+      setDatasetInfo(job.settings.datasetInfo);
+      if (job.settings.providerId !== providerId) {
+        handleProviderChange(job.settings.providerId);
+      }
+      setSelectedModel(job.settings.modelName);
+      setRestoredJob(job);
+
+      toast({
+        title: "Job Restored",
+        description: `${units.length} units of ${job.sourceLanguage} → ${job.targetLanguage} are loaded. Connect to ${getProvider(job.settings.providerId).label} and extract to process the chunks that are left.`,
+      });
+    } catch (error) {
+      console.error("Job restore error:", error);
+      toast({
+        title: "Could not restore job",
+        description: error instanceof Error ? error.message : "The saved job could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDiscardJob = async (job: ExtractionJob) => {
+    try {
+      await deleteJob(job.id);
+    } catch (error) {
+      console.error("Job delete error:", error);
+    }
+    refreshUnfinishedJobs();
+  };
+
+  const handleFilesUpload = async (files: File[]) => {
+    setBatchFiles([]);
+
+    let expandedFiles = files;
+    try {
+      expandedFiles = await expandArchives(files);
+    } catch (error) {
+      console.error("Archive error:", error);
+      toast({
+        title: "File parsing error",
+        description: "Could not open the ZIP archive.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (expandedFiles.length === 0) {
+      toast({
+        title: "No supported files",
+        description: "The upload contains no TMX, XLIFF or other supported files.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (expandedFiles.length === 1) {
+      await handleFileUpload(expandedFiles[0]);
+      return;
+    }
+
+    setTmxFile(null);
+    setTmxData(null);
+    setValidationReport(null);
+    setSelectedTargetLanguages([]);
+    setIsParsingFile(true);
+    setParseProgress(0);
+
+    try {
+      const parsedFiles = await parseBatchFiles(expandedFiles, setParseProgress, { encoding, languageGrouping });
+      const merged = mergeBatchFiles(parsedFiles);
+      setBatchFiles(parsedFiles);
+
+      if (!merged) {
+        throw new Error("None of the uploaded files could be read.");
+      }
+      setTmxData(merged.data);
+      setSelectedTargetLanguages([merged.data.targetLanguage]);
+
+      const failedCount = parsedFiles.filter(batchFile => !batchFile.data).length;
+      const excludedCount = merged.excludedFiles.length;
+      toast({
+        title: "Files Uploaded",
+        description: `${parsedFiles.length - failedCount} of ${parsedFiles.length} files read with ${merged.data.targetLanguages.length} target language(s).` +
+          (excludedCount > 0 ? ` ${excludedCount} file(s) with a source language other than ${merged.data.sourceLanguage} are left out.` : ""),
+        variant: failedCount > 0 || excludedCount > 0 ? "destructive" : undefined,
+      });
+    } catch (error) {
+      console.error("File parsing error:", error);
+      toast({
+        title: "File parsing error",
+        description: error instanceof Error ? error.message : "Could not parse the files.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsParsingFile(false);
+    }
+  };
+
+  const handleFileUpload = async (
+    file: File,
+    encodingOverride: string = encoding,
+    groupingOverride: LanguageGrouping = languageGrouping
+  ) => {
     setTmxFile(file);
-    toast({
-      title: "File Uploaded",
-      description: `${file.name} has been uploaded successfully.`,
+    setTmxData(null);
+    setSelectedTargetLanguages([]);
+    setFileEncoding(null);
+    setValidationReport(null);
+    setIsParsingFile(true);
+    setParseProgress(0);
+    const report = createValidationReport(file.name);
+    
+    try {
+      // Text files are decoded with the chosen encoding or the one detected from the BOM or XML declaration
+      const resolvedEncoding = getFileExtension(file.name) === '.xlsx'
+        ? undefined
+        : await resolveEncoding(file, encodingOverride);
+      setFileEncoding(resolvedEncoding || null);
+
+      // Spreadsheets are converted once the user has mapped their columns
+      if (isSpreadsheetFile(file)) {
+        setPendingSpreadsheet(await readSpreadsheetFile(file, resolvedEncoding));
+        return;
+      }
+
+      // Resource files are aligned once their counterpart in the other language is chosen
+      if (isResourceFile(file)) {
+        setPendingResourceFile(file);
+        return;
+      }
+
+      // Parse up front so the available language pairs can be picked before extraction
+      const data = await parseBilingualFile(file, {
+        encoding: resolvedEncoding,
+        languageGrouping: groupingOverride,
+        report,
+        onProgress: (bytesRead, totalBytes) => {
+          setParseProgress(totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 100) : 100);
+        }
+      });
+      setTmxData(data);
+      setSelectedTargetLanguages([data.targetLanguage]);
+      
+      toast({
+        title: "File Uploaded",
+        description: report.skippedUnits > 0
+          ? `${file.name} has been uploaded with ${data.targetLanguages.length} target language(s). ${report.skippedUnits} units were skipped; see the validation report.`
+          : `${file.name} has been uploaded successfully with ${data.targetLanguages.length} target language(s).`,
+      });
+    } catch (error) {
+      console.error("File parsing error:", error);
+      setTmxFile(null);
+      toast({
+        title: "File parsing error",
+        description: error instanceof Error ? error.message : "Could not parse the file. Please check the file format.",
+        variant: "destructive",
+      });
+    } finally {
+      setValidationReport(report);
+      setIsParsingFile(false);
+    }
+  };
+
+  const handleColumnMappingConfirm = (mapping: ColumnMapping) => {
+    if (!pendingSpreadsheet) return;
+
+    try {
+      const data = spreadsheetToTmxData(pendingSpreadsheet, mapping);
+      setTmxData(data);
+      setSelectedTargetLanguages([data.targetLanguage]);
+      setPendingSpreadsheet(null);
+
+      toast({
+        title: "File Uploaded",
+        description: `${pendingSpreadsheet.fileName} has been uploaded successfully with ${data.translationUnits.length} translation units.`,
+      });
+    } catch (error) {
+      console.error("Column mapping error:", error);
+      toast({
+        title: "Column mapping error",
+        description: error instanceof Error ? error.message : "Could not read the selected columns.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleColumnMappingCancel = () => {
+    setPendingSpreadsheet(null);
+    setTmxFile(null);
+  };
+
+  const handleResourcePairConfirm = async (pair: ResourcePair) => {
+    setPendingResourceFile(null);
+    setIsParsingFile(true);
+
+    try {
+      const data = await parseJsonResourcePair(pair.sourceFile, pair.targetFile, pair.sourceLanguage, pair.targetLanguage, encoding);
+      setTmxData(data);
+      setSelectedTargetLanguages([data.targetLanguage]);
+
+      toast({
+        title: "Files Aligned",
+        description: `${pair.sourceFile.name} and ${pair.targetFile.name} share ${data.translationUnits.length} translated keys.`,
+      });
+    } catch (error) {
+      console.error("Resource alignment error:", error);
+      setTmxFile(null);
+      toast({
+        title: "File parsing error",
+        description: error instanceof Error ? error.message : "Could not align the resource files.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsParsingFile(false);
+    }
+  };
+
+  const handleResourcePairCancel = () => {
+    setPendingResourceFile(null);
+    setTmxFile(null);
+  };
+
+  const handleEncodingChange = (value: string) => {
+    setEncoding(value);
+    // Read the current file again so a wrongly detected encoding can be corrected
+    if (tmxFile && SUPPORTED_EXTENSIONS.includes(getFileExtension(tmxFile.name)) && batchFiles.length === 0 && !isProcessing) {
+      handleFileUpload(tmxFile, value);
+    }
+  };
+
+  const handleLanguageGroupingChange = (value: LanguageGrouping) => {
+    setLanguageGrouping(value);
+    // Spreadsheets and resource files get their languages from the user, so only bilingual files are read again
+    if (tmxFile && SUPPORTED_EXTENSIONS.includes(getFileExtension(tmxFile.name)) &&
+        !isSpreadsheetFile(tmxFile) && !isResourceFile(tmxFile) && batchFiles.length === 0 && !isProcessing) {
+      handleFileUpload(tmxFile, encoding, value);
+    }
+  };
+
+  const handleAlignDocuments = async (request: DocumentAlignmentRequest) => {
+    setBatchFiles([]);
+    setValidationReport(null);
+    setTmxFile(null);
+    setTmxData(null);
+    setSelectedTargetLanguages([]);
+    setIsParsingFile(true);
+    setParseProgress(0);
+
+    try {
+      const sourceParagraphs = await readDocumentParagraphs(request.sourceFile, encoding);
+      const targetParagraphs = await readDocumentParagraphs(request.targetFile, encoding);
+      setParseProgress(50);
+
+      const pairs = alignSentences(
+        splitSentences(sourceParagraphs, request.sourceLanguage),
+        splitSentences(targetParagraphs, request.targetLanguage)
+      );
+      setPendingAlignment({
+        pairs,
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage,
+        sourceFileName: request.sourceFile.name,
+        targetFileName: request.targetFile.name
+      });
+      setTmxFile(request.sourceFile);
+    } catch (error) {
+      console.error("Document alignment error:", error);
+      toast({
+        title: "Alignment error",
+        description: error instanceof Error ? error.message : "Could not align the documents.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsParsingFile(false);
+    }
+  };
+
+  const handleAlignmentRefine = (pairs: AlignedPair[], onRefineProgress: (done: number, total: number) => void) => {
+    return refineAlignmentWithLlm(pairs, {
+      providerSettings,
+      modelName: selectedModel,
+      sourceLanguage: pendingAlignment?.sourceLanguage || "",
+      targetLanguage: pendingAlignment?.targetLanguage || "",
+      onProgress: onRefineProgress
     });
   };
 
+  const handleAlignmentConfirm = (pairs: AlignedPair[]) => {
+    if (!pendingAlignment) return;
+
+    try {
+      const data = alignedPairsToTmxData(
+        pairs,
+        pendingAlignment.sourceLanguage,
+        pendingAlignment.targetLanguage,
+        pendingAlignment.targetFileName
+      );
+      setTmxData(data);
+      setSelectedTargetLanguages([data.targetLanguage]);
+      setPendingAlignment(null);
+
+      toast({
+        title: "Documents Aligned",
+        description: `${data.translationUnits.length} sentence pairs are ready for extraction.`,
+      });
+    } catch (error) {
+      console.error("Document alignment error:", error);
+      toast({
+        title: "Alignment error",
+        description: error instanceof Error ? error.message : "Could not use the aligned pairs.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAlignmentCancel = () => {
+    setPendingAlignment(null);
+    setTmxFile(null);
+  };
+
   const handleExtractTerminology = () => {
-    if (!apiKey || !isApiKeyValid) {
+    if (!isProviderConfigured(providerSettings) || !isApiKeyValid) {
       toast({
-        title: "Missing API Key",
-        description: "Please enter a valid Gemini API key.",
+        title: provider.requiresApiKey ? "Missing API Key" : "Not connected",
+        description: provider.requiresApiKey
+          ? `Please enter a valid ${provider.label} API key.`
+          : "Please connect to your local model server first.",
         variant: "destructive",
       });
       return;
@@ -163,7 +531,7 @@ const Index = () => {
     if (!selectedModel) {
       toast({
         title: "Model Not Selected",
-        description: "Please select a Gemini model to proceed.",
+        description: "Please select a model to proceed.",
         variant: "destructive",
       });
       return;
@@ -178,10 +546,19 @@ const Index = () => {
       return;
     }
 
-    if (!tmxFile) {
+    if (!tmxData) {
+      toast({
+        title: "No File",
+        description: "Please upload a TMX, XLIFF, PO, JSON or spreadsheet file first.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedTargetLanguages.length === 0) {
       toast({
-        title: "No TMX File",
-        description: "Please upload a TMX file first.",
+        title: "No Language Pair Selected",
+        description: "Please select at least one language pair to extract.",
         variant: "destructive",
       });
       return;
@@ -190,7 +567,7 @@ const Index = () => {
     // Clear previous debug messages, errors, and results
     setDebugMessages([]);
     setApiError(null);
-    setExtractedTerms(null);
+    setExtractedGlossaries(null);
     
     setIsProcessing(true);
     setProgress(0);
@@ -198,14 +575,36 @@ const Index = () => {
     // The actual extraction will happen in the TerminologyExtractor component
   };
 
-  const handleExtractionComplete = (terms: Array<{sourceTerm: string, targetTerm: string}>) => {
-    setExtractedTerms(terms);
+  const handleExtractionComplete = (glossaries: Glossary[]) => {
+    setExtractedGlossaries(glossaries);
     setIsProcessing(false);
     setProgress(100);
+    refreshUnfinishedJobs();
     
+    const totalTerms = glossaries.reduce((sum, glossary) => sum + glossary.terms.length, 0);
     toast({
       title: "Extraction Complete",
-      description: `Successfully extracted ${terms.length} terminology pairs.`,
+      description: glossaries.length > 1
+        ? `Successfully extracted ${totalTerms} terminology pairs across ${glossaries.length} language pairs.`
+        : `Successfully extracted ${totalTerms} terminology pairs.`,
+    });
+  };
+
+  const handleExtractionCancelled = (glossaries: Glossary[]) => {
+    setIsProcessing(false);
+    setProgress(0);
+    refreshUnfinishedJobs();
+    
+    // Terms of the chunks finished before cancelling are kept
+    const totalTerms = glossaries.reduce((sum, glossary) => sum + glossary.terms.length, 0);
+    if (totalTerms > 0) {
+      setExtractedGlossaries(glossaries);
+    }
+    toast({
+      title: "Extraction Cancelled",
+      description: totalTerms > 0
+        ? `Kept ${totalTerms} terminology pairs from the chunks finished before cancelling.`
+        : "No terms had been extracted yet.",
     });
   };
 
@@ -216,6 +615,7 @@ const Index = () => {
   const handleExtractionError = (errorMessage: string) => {
     setIsProcessing(false);
     setProgress(0);
+    refreshUnfinishedJobs();
     setApiError(errorMessage);
     
     toast({
@@ -225,26 +625,35 @@ const Index = () => {
     });
   };
 
-  const downloadTerms = () => {
-    if (!extractedTerms) return;
-    
+  const downloadGlossary = (glossary: Glossary) => {
     // Convert terms to CSV content
-    const csvContent = [
-      "Source Term,Target Term",
-      ...extractedTerms.map(term => `"${term.sourceTerm}","${term.targetTerm}"`)
-    ].join('\n');
+    const csvContent = glossaryToCsv(glossary);
     
     // Create a blob and download link
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.setAttribute('href', url);
-    link.setAttribute('download', 'extracted_terminology.csv');
+    link.setAttribute('download', getGlossaryFileName(glossary));
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  // Separate jobs use every readable file in the source language of the merged data. The list is
+  // kept between renders so the extract step only measures the data again when it changes.
+  const extractionDatasets = useMemo((): ExtractionDataset[] => !tmxData
+    ? []
+    : batchMode === 'separate' && batchFiles.length > 1
+      ? batchFiles
+          .filter(batchFile => batchFile.data && batchFile.data.sourceLanguage === tmxData.sourceLanguage)
+          .map(batchFile => ({ tmxData: batchFile.data as TmxData, sourceFile: batchFile.name }))
+      : [{ tmxData }], [tmxData, batchMode, batchFiles]);
+
+  const validationReports = batchFiles.length > 0
+    ? batchFiles.flatMap(batchFile => batchFile.report ? [batchFile.report] : [])
+    : validationReport ? [validationReport] : [];
+
   return (
     <div className="min-h-screen bg-slate-50 py-8">
       <div className="container mx-auto px-4">
@@ -252,19 +661,34 @@ const Index = () => {
         
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-slate-800">Bilingual Terminology Extractor</h1>
-          <p className="text-slate-600 mt-2">Extract terminology pairs from TMX files using Google's Gemini API</p>
+          <p className="text-slate-600 mt-2">Extract terminology pairs from translation memories, XLIFF, software resource files and spreadsheets using Google Gemini, OpenAI or any OpenAI-compatible API</p>
         </div>
         
         <ApiStatusAlerts 
           apiError={apiError} 
           isApiKeyValid={isApiKeyValid} 
+          providerLabel={provider.label}
           availableModels={availableModels}
         />
         
         <div className="grid grid-cols-1 gap-6 max-w-4xl mx-auto">
+          {!isProcessing && (
+            <UnfinishedJobsCard
+              jobs={unfinishedJobs}
+              onRestore={handleRestoreJob}
+              onDiscard={handleDiscardJob}
+            />
+          )}
+
           <ApiKeyCard 
+            providerId={providerId}
+            onProviderChange={handleProviderChange}
+            baseUrl={baseUrl}
+            setBaseUrl={setBaseUrl}
             apiKey={apiKey}
             setApiKey={setApiKey}
+            recordingMode={recordingMode}
+            onRecordingModeChange={handleRecordingModeChange}
             selectedModel={selectedModel}
             setSelectedModel={setSelectedModel}
             isApiKeyValid={isApiKeyValid}
@@ -280,29 +704,78 @@ const Index = () => {
 
           <FileUploadCard 
             tmxFile={tmxFile}
-            onFileUpload={handleFileUpload}
+            tmxData={tmxData}
+            isParsingFile={isParsingFile}
+            parseProgress={parseProgress}
+            selectedTargetLanguages={selectedTargetLanguages}
+            onSelectedTargetLanguagesChange={setSelectedTargetLanguages}
+            batchFiles={batchFiles}
+            batchMode={batchMode}
+            onBatchModeChange={setBatchMode}
+            encoding={encoding}
+            fileEncoding={fileEncoding}
+            onEncodingChange={handleEncodingChange}
+            languageGrouping={languageGrouping}
+            onLanguageGroupingChange={handleLanguageGroupingChange}
+            validationReports={validationReports}
+            onFilesUpload={handleFilesUpload}
+            onAlignDocuments={handleAlignDocuments}
+          />
+
+          <TuFilterCard
+            tmxData={tmxData}
+            selectedTargetLanguages={selectedTargetLanguages}
+            filterOptions={filterOptions}
+            onFilterOptionsChange={setFilterOptions}
+            disabled={isProcessing}
           />
 
           <ExtractCard 
             isProcessing={isProcessing}
             progress={progress}
-            apiKey={apiKey}
+            providerSettings={providerSettings}
             selectedModel={selectedModel}
+            selectedModelInfo={availableModels.find(model => model.name === selectedModel)}
             datasetInfo={datasetInfo}
-            tmxFile={tmxFile}
+            datasets={extractionDatasets}
+            selectedTargetLanguages={selectedTargetLanguages}
+            filterOptions={filterOptions}
+            restoredSettings={restoredJob?.settings}
+            resumeJobId={restoredJob?.id}
             onExtractTerminology={handleExtractTerminology}
             onProgress={handleExtractionProgress}
             onComplete={handleExtractionComplete}
+            onCancelled={handleExtractionCancelled}
             onError={handleExtractionError}
           />
 
           <ResultsCard 
-            extractedTerms={extractedTerms}
-            onDownload={downloadTerms}
+            glossaries={extractedGlossaries}
+            tmxData={tmxData}
+            onDownload={downloadGlossary}
           />
           
           <DebugPanel debugMessages={debugMessages} />
         </div>
+
+        <ColumnMappingDialog
+          spreadsheet={pendingSpreadsheet}
+          onConfirm={handleColumnMappingConfirm}
+          onCancel={handleColumnMappingCancel}
+        />
+
+        <ResourcePairDialog
+          file={pendingResourceFile}
+          onConfirm={handleResourcePairConfirm}
+          onCancel={handleResourcePairCancel}
+        />
+
+        <AlignmentReviewDialog
+          alignment={pendingAlignment}
+          onRefine={isApiKeyValid && selectedModel ? handleAlignmentRefine : undefined}
+          onConfirm={handleAlignmentConfirm}
+          onCancel={handleAlignmentCancel}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,125 @@
+/**
+ * Typed errors of model APIs, so callers can tell a bad key from a busy server or a blocked answer
+ */
+
+export type ApiErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate-limit'
+  | 'safety'
+  | 'truncation'
+  | 'context-length'
+  | 'bad-request'
+  | 'network'
+  | 'invalid-model'
+  | 'server'
+  | 'missing-recording'
+  | 'unknown';
+
+export const ERROR_KIND_LABELS: Record<ApiErrorKind, string> = {
+  auth: "Authentication",
+  quota: "Quota exhausted",
+  'rate-limit': "Rate limit",
+  safety: "Safety block",
+  truncation: "Truncated answer",
+  'context-length': "Prompt too long",
+  'bad-request': "Bad request",
+  network: "Network",
+  'invalid-model': "Invalid model",
+  server: "Server error",
+  'missing-recording': "Missing recording",
+  unknown: "Error"
+};
+
+// Every later request fails the same way, so the job stops at the first of these
+const FATAL_KINDS: ApiErrorKind[] = ['auth', 'quota', 'invalid-model'];
+
+// Sending the same prompt again can succeed
+const RETRYABLE_KINDS: ApiErrorKind[] = ['rate-limit', 'network', 'server', 'unknown'];
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  // How long the API asked to wait before the next request
+  retryAfterMs?: number;
+  // What the model wrote before a truncated answer was cut off
+  partialText?: string;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; partialText?: string } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.partialText = options.partialText;
+  }
+
+  get fatal(): boolean {
+    return FATAL_KINDS.includes(this.kind);
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Read a retry hint: seconds ("30"), a duration ("30s", "1.5s") or an HTTP date
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = value.trim().match(/^(\d+(?:\.\d+)?)s?$/);
+  if (seconds) return Math.ceil(parseFloat(seconds[1]) * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Pick the error kind from an HTTP status and the words of the error message
+ */
+export const classifyStatus = (status: number | undefined, message: string): ApiErrorKind => {
+  const text = message.toLowerCase();
+  if (status === 401 || status === 403 || /api key not valid|invalid api key|incorrect api key|api_key_invalid|unauthenticated/.test(text)) {
+    return 'auth';
+  }
+  if (status === 429) {
+    // Daily or billing quotas do not come back within the job, per-minute limits do
+    return /per ?day|insufficient_quota|billing|hard limit/.test(text) ? 'quota' : 'rate-limit';
+  }
+  if (status === 404 || /model .*not found|does not exist|not supported for generatecontent|model_not_found/.test(text)) {
+    return 'invalid-model';
+  }
+  // Sending the prompt in smaller parts helps, sending it again does not
+  if (status === 413 || /context_length_exceeded|context length|context window|input token count .*exceeds|too many tokens|prompt is too long|request too large|payload too large/.test(text)) {
+    return 'context-length';
+  }
+  // Any other refused request is refused again the same way
+  if (status !== undefined && status >= 400 && status < 500) return 'bad-request';
+  if (status !== undefined && status >= 500) return 'server';
+  if (/failed to fetch|networkerror|network error|connection error|econnrefused|timed out|load failed/.test(text)) {
+    return 'network';
+  }
+  return 'unknown';
+};
+
+/**
+ * Turn anything thrown by a model call into an ApiError, keeping errors that already are one
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ApiError(classifyStatus(undefined, message), message);
+};
+
+/**
+ * One line per kind of error, e.g. "2 × Rate limit, 1 × Safety block"
+ */
+export const summarizeErrorKinds = (kinds: ApiErrorKind[]): string => {
+  const counts = new Map<ApiErrorKind, number>();
+  kinds.forEach(kind => counts.set(kind, (counts.get(kind) || 0) + 1));
+  return Array.from(counts, ([kind, count]) => `${count} × ${ERROR_KIND_LABELS[kind]}`).join(', ');
+};
@@ -0,0 +1,167 @@
+/**
+ * Utilities for uploading several bilingual files at once, from a selection, a folder or a ZIP archive
+ */
+import JSZip from 'jszip';
+import { TmxData, TmxParseOptions, buildTmxData } from './tmxParser';
+import { ValidationReport, createValidationReport } from './validationReport';
+import {
+  RESOURCE_EXTENSIONS,
+  SPREADSHEET_EXTENSIONS,
+  SUPPORTED_EXTENSIONS,
+  getFileExtension,
+  parseBilingualFile
+} from './fileParser';
+
+export const ARCHIVE_EXTENSIONS = ['.zip'];
+
+// Formats that need a dialog of their own (column mapping, resource pairing) and can only be uploaded alone
+const SINGLE_FILE_EXTENSIONS = [...SPREADSHEET_EXTENSIONS, ...RESOURCE_EXTENSIONS];
+
+/**
+ * One file of a batch upload with the data read from it, or the reason it could not be read
+ */
+export interface BatchFile {
+  name: string;
+  size: number;
+  data: TmxData | null;
+  error?: string;
+  // Problems found while reading the file
+  report?: ValidationReport;
+}
+
+export type BatchMode = 'merged' | 'separate';
+
+/**
+ * Replace ZIP archives by the supported files they contain. Entries keep their path inside the archive as name.
+ */
+export const expandArchives = async (files: File[]): Promise<File[]> => {
+  const expanded: File[] = [];
+
+  for (const file of files) {
+    if (!ARCHIVE_EXTENSIONS.includes(getFileExtension(file.name))) {
+      expanded.push(file);
+      continue;
+    }
+
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const entries = Object.values(zip.files).filter(entry =>
+      !entry.dir &&
+      !entry.name.startsWith('__MACOSX/') &&
+      SUPPORTED_EXTENSIONS.includes(getFileExtension(entry.name))
+    );
+    console.log(`Archive ${file.name}: ${entries.length} supported files`);
+
+    for (const entry of entries) {
+      const blob = await entry.async('blob');
+      expanded.push(new File([blob], entry.name));
+    }
+  }
+
+  return expanded;
+};
+
+/**
+ * Parse every file of a batch one after the other. Files that fail are kept with their error
+ * so the rest of the batch can still be used. Each unit records the file it came from.
+ */
+export const parseBatchFiles = async (
+  files: File[],
+  onProgress?: (progress: number) => void,
+  // Applied to every file; each file's encoding is detected when omitted
+  options: Pick<TmxParseOptions, 'encoding' | 'languageGrouping'> = {}
+): Promise<BatchFile[]> => {
+  const results: BatchFile[] = [];
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+
+    if (SINGLE_FILE_EXTENSIONS.includes(getFileExtension(file.name))) {
+      results.push({
+        name: file.name,
+        size: file.size,
+        data: null,
+        error: "Spreadsheets and JSON resource files have to be uploaded on their own"
+      });
+      continue;
+    }
+
+    const report = createValidationReport(file.name);
+    try {
+      const data = await parseBilingualFile(file, {
+        ...options,
+        report,
+        onProgress: (bytesRead, totalBytes) => {
+          const fileProgress = totalBytes > 0 ? bytesRead / totalBytes : 1;
+          onProgress?.(Math.floor(((i + fileProgress) / files.length) * 100));
+        }
+      });
+      data.multilingualUnits.forEach(unit => {
+        unit.metadata.sourceFile = file.name;
+      });
+      results.push({ name: file.name, size: file.size, data, report });
+    } catch (error) {
+      console.error(`Error reading ${file.name}:`, error);
+      results.push({
+        name: file.name,
+        size: file.size,
+        data: null,
+        error: error instanceof Error ? error.message : "Could not read the file",
+        report
+      });
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Files of a batch merged into one data set, and the readable files left out of it
+ */
+export interface MergedBatch {
+  data: TmxData;
+  // Files whose source language differs from the merged one
+  excludedFiles: BatchFile[];
+}
+
+/**
+ * Readable files whose source language differs from the first readable file's. They are left
+ * out of the extraction, merged or separate.
+ */
+export const findExcludedFiles = (batchFiles: BatchFile[]): BatchFile[] => {
+  const readable = batchFiles.filter(batchFile => batchFile.data);
+  if (readable.length === 0) return [];
+  const sourceLanguage = readable[0].data!.sourceLanguage;
+  return readable.filter(batchFile => batchFile.data!.sourceLanguage !== sourceLanguage);
+};
+
+/**
+ * Merge the files of a batch into one data set. Only files sharing the source language of the
+ * first readable file are included; the target languages are the union of theirs.
+ */
+export const mergeBatchFiles = (batchFiles: BatchFile[]): MergedBatch | null => {
+  const readable = batchFiles.filter(batchFile => batchFile.data);
+  if (readable.length === 0) return null;
+
+  const sourceLanguage = readable[0].data!.sourceLanguage;
+  const excludedFiles = findExcludedFiles(batchFiles);
+  const included = readable.filter(batchFile => !excludedFiles.includes(batchFile));
+  if (excludedFiles.length > 0) {
+    console.warn(`${excludedFiles.length} files have a source language other than ${sourceLanguage} and are not merged`);
+  }
+
+  const targetLanguages: string[] = [];
+  included.forEach(batchFile => {
+    batchFile.data!.targetLanguages.forEach(language => {
+      if (!targetLanguages.includes(language)) targetLanguages.push(language);
+    });
+  });
+
+  return {
+    data: buildTmxData(
+      sourceLanguage,
+      targetLanguages,
+      included.flatMap(batchFile => batchFile.data!.multilingualUnits)
+    ),
+    excludedFiles
+  };
+};
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ChunkStatus, PartialExtractionError, processTmxInChunks } from './chunkProcessor';
+import { setMockScript } from './mockProvider';
+import { ApiError } from './apiErrors';
+import { TmxData } from './tmxParser';
+
+const makeTmxData = (pairs: Array<[string, string]>): TmxData => ({
+  sourceLanguage: 'en-US',
+  targetLanguage: 'de-DE',
+  targetLanguages: ['de-DE'],
+  translationUnits: pairs.map(([source, target]) => ({ source, target })),
+  multilingualUnits: []
+});
+
+const run = (tmxData: TmxData, onChunkStatus?: (statuses: ChunkStatus[]) => void) => processTmxInChunks({
+  tmxData,
+  datasetInfo: "Software user interface strings",
+  providerSettings: { providerId: 'mock', apiKey: '' },
+  modelName: 'mock-heuristic',
+  maxTokensPerChunk: 600,
+  adaptiveChunkSize: false,
+  onChunkProgress: () => {},
+  onChunkStatus
+});
+
+describe('processTmxInChunks with the mock provider', () => {
+  afterEach(() => setMockScript(null));
+
+  it('extracts short segments as terms across several chunks', async () => {
+    const pairs = Array.from({ length: 40 }, (_, index): [string, string] => [`Save file ${index}`, `Datei ${index} speichern`]);
+    let statuses: ChunkStatus[] = [];
+
+    const terms = await run(makeTmxData(pairs), chunkStatuses => { statuses = chunkStatuses; });
+
+    expect(statuses.length).toBeGreaterThan(1);
+    expect(statuses.every(status => status.state === 'done')).toBe(true);
+    expect(terms.map(term => term.sourceTerm).sort()).toEqual(pairs.map(([source]) => source).sort());
+  });
+
+  it.each([
+    ['cut-off', new ApiError('truncation', "The answer was cut off at the output token limit", { partialText: '' })],
+    ['too long', new ApiError('context-length', "The input token count exceeds the maximum", { status: 400 })]
+  ])('sends a %s chunk again in parts and keeps the terms of every part', async (_, error) => {
+    const pairs = Array.from({ length: 8 }, (_, index): [string, string] => [`term${index}`, `Begriff${index}`]);
+    setMockScript({
+      extractTerms: prompt => {
+        const sources = Array.from(prompt.matchAll(/"source": "(term\d+)"/g), match => match[1]);
+        if (sources.length > 2) throw error;
+        return sources.map(source => ({ sourceTerm: source, targetTerm: source.replace('term', 'Begriff') }));
+      }
+    });
+    let statuses: ChunkStatus[] = [];
+
+    const terms = await run(makeTmxData(pairs), chunkStatuses => { statuses = chunkStatuses; });
+
+    // The chunk of 8 units is halved until every part has at most 2 units
+    expect(terms).toHaveLength(8);
+    expect(statuses).toHaveLength(1);
+    expect(statuses[0].parts).toBe(4);
+  });
+
+  it('hands back the terms of finished chunks when a fatal error stops the job', async () => {
+    const pairs = Array.from({ length: 40 }, (_, index): [string, string] => [`term${index}`, `Begriff${index}`]);
+    setMockScript({
+      extractTerms: prompt => {
+        const sources = Array.from(prompt.matchAll(/"source": "(term\d+)"/g), match => match[1]);
+        if (sources.includes('term39')) throw new ApiError('auth', "The API key was revoked", { status: 401 });
+        return sources.map(source => ({ sourceTerm: source, targetTerm: source.replace('term', 'Begriff') }));
+      }
+    });
+    let statuses: ChunkStatus[] = [];
+
+    const error = await run(makeTmxData(pairs), chunkStatuses => { statuses = chunkStatuses; }).catch(caught => caught);
+
+    const doneChunks = statuses.filter(status => status.state === 'done');
+    expect(error).toBeInstanceOf(PartialExtractionError);
+    expect(error.kind).toBe('auth');
+    expect(doneChunks.length).toBeGreaterThan(0);
+    expect(error.terms).toHaveLength(doneChunks.reduce((sum, status) => sum + status.units, 0));
+    expect(error.terms.map(term => term.sourceTerm)).not.toContain('term39');
+  });
+});
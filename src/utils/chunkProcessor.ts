@@ -1,153 +1,495 @@
 
-import { TmxData } from './tmxParser';
-import { generatePrompt } from './promptGenerator';
-import { callGeminiApi } from './geminiApi';
+import { TmxData, TranslationUnit, groupProps } from './tmxParser';
+import { PromptOptions, generatePrompt, toPromptSample } from './promptGenerator';
+import { LlmProvider, ProviderSettings, TokenUsage, estimateTokens, salvageTerminologyPairs } from './llmProvider';
+import { resolveProvider } from './providerRegistry';
+import { InlineCodeMode, stripPlaceholderTokens } from './segmentMarkup';
+import { MAX_ATTRIBUTED_TUIDS, TermAttribution, TerminologyPair, mergeAttributions } from './glossary';
+import { RateLimits, createRateLimiter, runQueueWithConcurrency } from './requestScheduler';
+import { CHUNK_SIZE_REASON_LABELS, ChunkSizeDecision, createChunkSizer } from './chunkSizer';
+import { ApiError, ApiErrorKind, ERROR_KIND_LABELS, toApiError } from './apiErrors';
+import { JobControl, abortable, delay, isCancelled } from './jobControl';
+
+export type ChunkState = 'pending' | 'running' | 'retrying' | 'done' | 'failed' | 'skipped';
+
+// Rate limits clear within a minute or two, so they get more attempts than other errors
+const MAX_RETRIES = 2;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+// Prompts stay a tenth below the model's input limit, since their tokens are estimated before sending
+const CONTEXT_SAFETY_MARGIN = 0.9;
+// Adaptive chunks shrink to no less than this share of the token budget
+const MIN_CHUNK_BUDGET_SHARE = 0.1;
+// Units spread over the data that make up the prompt the provider is asked to count
+const CALIBRATION_SAMPLE_UNITS = 200;
+
+/**
+ * Progress of one chunk, reported every time it changes
+ */
+export interface ChunkStatus {
+  index: number;
+  units: number;
+  state: ChunkState;
+  attempts: number;
+  terms: number;
+  // More than 1 once a cut-off answer or a prompt over the context limit made the chunk be sent in smaller parts
+  parts?: number;
+  // Last error of a failed or retrying chunk
+  error?: { kind: ApiErrorKind; message: string };
+}
+
+/**
+ * What is kept of a chunk so an interrupted job can go on where it stopped
+ */
+export interface ChunkCheckpoint {
+  // Translation units [start, end) of the job's data
+  start: number;
+  end: number;
+  state: ChunkState;
+  // Terms of a done chunk, attributed and ready for deduplication
+  terms: TerminologyPair[];
+}
 
 export interface ChunkProcessorOptions {
   tmxData: TmxData;
   datasetInfo: string;
-  apiKey: string;
+  providerSettings: ProviderSettings;
   modelName: string;
   chunkSize?: number;
+  // Tokens of the whole prompt of a chunk, instructions and dataset info included
   maxTokensPerChunk?: number;
+  // Input limit of the model; chunks stay below it whatever maxTokensPerChunk says
+  inputTokenLimit?: number;
+  // Shrink chunks after cut-off, failed or poor answers and grow them back while answers are healthy
+  adaptiveChunkSize?: boolean;
+  // Receives every change of the chunk size, for the job log
+  onChunkSizeDecision?: (decision: ChunkSizeDecision) => void;
+  // Receives the billed tokens of every answer
+  onUsage?: (usage: TokenUsage) => void;
+  inlineCodeMode?: InlineCodeMode;
+  includeMetadata?: boolean;
+  // Chunks sent at the same time; 1 processes them one after the other
+  concurrency?: number;
+  rateLimits?: RateLimits;
+  // Pauses the job between chunks or cancels it; a cancelled job returns the terms of its finished chunks
+  jobControl?: JobControl;
   onChunkProgress: (progress: number) => void;
+  // Receives the status of every chunk whenever one of them changes
+  onChunkStatus?: (statuses: ChunkStatus[]) => void;
+  // Chunks of an earlier run of the same data: their boundaries are kept and done chunks are not sent again
+  checkpoint?: ChunkCheckpoint[];
+  // Receives every chunk's checkpoint at the start and whenever a chunk finishes
+  onCheckpoint?: (checkpoints: ChunkCheckpoint[]) => void;
 }
 
-// Estimate tokens in a string - 1 token is roughly 4 characters in English
-const estimateTokens = (text: string): number => {
-  return Math.ceil(text.length / 4);
-};
+/**
+ * Thrown when a fatal API error stops a job. It carries the terms of the chunks that finished
+ * before it, so they can be shown without resuming the job.
+ */
+export class PartialExtractionError extends ApiError {
+  // Deduplicated terms of the finished chunks
+  terms: TerminologyPair[];
+
+  constructor(error: ApiError, terms: TerminologyPair[]) {
+    super(error.kind, error.message, { status: error.status, retryAfterMs: error.retryAfterMs });
+    this.name = 'PartialExtractionError';
+    this.terms = terms;
+  }
+}
 
 // Deduplicate terminology pairs based on source terms
-const deduplicateTerms = (terms: Array<{sourceTerm: string, targetTerm: string}>): Array<{sourceTerm: string, targetTerm: string}> => {
-  const uniqueTerms = new Map<string, string>();
+const deduplicateTerms = (terms: TerminologyPair[]): TerminologyPair[] => {
+  const uniqueTerms = new Map<string, TerminologyPair>();
   
   terms.forEach(term => {
     // Skip empty terms
     if (!term.sourceTerm || !term.targetTerm) return;
     
-    // Only add if source term doesn't exist, or if it does but this target is longer/more complete
-    const existingTerm = uniqueTerms.get(term.sourceTerm.toLowerCase());
-    if (!existingTerm || (existingTerm.length < term.targetTerm.length)) {
-      uniqueTerms.set(term.sourceTerm.toLowerCase(), term.targetTerm);
+    const key = term.sourceTerm.toLowerCase();
+    const existingTerm = uniqueTerms.get(key);
+    
+    // Only replace the target if this one is longer/more complete; the first source casing is kept
+    if (!existingTerm) {
+      uniqueTerms.set(key, { ...term });
+    } else {
+      uniqueTerms.set(key, {
+        sourceTerm: existingTerm.sourceTerm,
+        targetTerm: existingTerm.targetTerm.length < term.targetTerm.length ? term.targetTerm : existingTerm.targetTerm,
+        attribution: mergeAttributions(existingTerm.attribution, term.attribution)
+      });
     }
   });
   
-  return Array.from(uniqueTerms.entries())
-    .filter(([source, target]) => source && target) // Extra validation
-    .map(([sourceLower, target]) => {
-      // Find the original source term with proper casing
-      const originalTerm = terms.find(t => t.sourceTerm?.toLowerCase() === sourceLower);
-      return {
-        sourceTerm: originalTerm?.sourceTerm || sourceLower,
-        targetTerm: target
-      };
+  return Array.from(uniqueTerms.values())
+    .filter(term => term.sourceTerm && term.targetTerm); // Extra validation
+};
+
+// Attribute each term to the translation units of its chunk that contain both sides of the pair
+const attributeTerms = (terms: TerminologyPair[], units: TranslationUnit[]): TerminologyPair[] => {
+  const lowerUnits = units.map(unit => ({
+    source: unit.source.toLowerCase(),
+    target: unit.target.toLowerCase(),
+    metadata: unit.metadata
+  }));
+  
+  return terms.map(term => {
+    if (typeof term.sourceTerm !== 'string' || typeof term.targetTerm !== 'string') return term;
+    
+    const sourceTerm = term.sourceTerm.toLowerCase();
+    const targetTerm = term.targetTerm.toLowerCase();
+    const attribution: TermAttribution = { occurrences: 0, tuids: [], props: {}, files: [] };
+    
+    lowerUnits.forEach(unit => {
+      if (!unit.source.includes(sourceTerm) || !unit.target.includes(targetTerm)) return;
+      attribution.occurrences++;
+      if (!unit.metadata) return;
+      if (unit.metadata.tuid && attribution.tuids.length < MAX_ATTRIBUTED_TUIDS) {
+        attribution.tuids.push(unit.metadata.tuid);
+      }
+      if (unit.metadata.sourceFile && !attribution.files.includes(unit.metadata.sourceFile)) {
+        attribution.files.push(unit.metadata.sourceFile);
+      }
+      Object.entries(groupProps(unit.metadata.props)).forEach(([type, values]) => {
+        const known = attribution.props[type] || [];
+        attribution.props[type] = [...known, ...values.filter(value => !known.includes(value))];
+      });
     });
+    
+    return attribution.occurrences > 0 ? { ...term, attribution } : term;
+  });
+};
+
+/**
+ * Compare the offline token estimate with the provider's count of a prompt made of units spread
+ * over the data. Returns the factor estimates are scaled by; 1 when the provider cannot count.
+ */
+const calibrateTokenEstimate = async (
+  provider: LlmProvider,
+  providerSettings: ProviderSettings,
+  modelName: string,
+  tmxData: TmxData,
+  datasetInfo: string,
+  promptOptions: PromptOptions,
+  signal?: AbortSignal
+): Promise<number> => {
+  const units = tmxData.translationUnits;
+  const step = Math.max(1, Math.floor(units.length / CALIBRATION_SAMPLE_UNITS));
+  const sampleUnits = units.filter((_, index) => index % step === 0).slice(0, CALIBRATION_SAMPLE_UNITS);
+  const prompt = generatePrompt({ ...tmxData, translationUnits: sampleUnits }, datasetInfo, promptOptions);
+  const estimated = estimateTokens(prompt);
+  
+  try {
+    const counted = await abortable(provider.countTokens(providerSettings, modelName, prompt), signal);
+    if (counted > 0 && estimated > 0) {
+      console.log(`${provider.label} counts ${counted} tokens for a sample prompt estimated at ${estimated}`);
+      return counted / estimated;
+    }
+  } catch (error) {
+    console.warn("Could not count tokens with the provider, using the offline estimate:", error);
+  }
+  return 1;
+};
+
+/**
+ * Prompt token budget of a chunk: the configured maximum, kept below the model's input limit
+ */
+export const chunkTokenBudget = (maxTokensPerChunk: number, inputTokenLimit?: number): number => {
+  return inputTokenLimit
+    ? Math.min(maxTokensPerChunk, Math.floor(inputTokenLimit * CONTEXT_SAFETY_MARGIN))
+    : maxTokensPerChunk;
 };
 
-export const processTmxInChunks = async (options: ChunkProcessorOptions): Promise<Array<{sourceTerm: string, targetTerm: string}>> => {
+/**
+ * Measure what prompts are built from: the part every prompt has (instructions, dataset info,
+ * language pair) and the tokens each unit adds. Units are measured inside an array, with the
+ * indentation and separators they have in the prompt.
+ */
+export const measurePromptTokens = (
+  tmxData: TmxData,
+  datasetInfo: string,
+  promptOptions: PromptOptions,
+  countTokens: (text: string) => number = estimateTokens
+): { fixedTokens: number; unitTokens: number[] } => {
+  return {
+    fixedTokens: countTokens(generatePrompt({ ...tmxData, translationUnits: [] }, datasetInfo, promptOptions)),
+    unitTokens: tmxData.translationUnits.map(unit =>
+      countTokens(JSON.stringify([toPromptSample(unit, promptOptions)], null, 2))
+    )
+  };
+};
+
+/**
+ * End of the chunk starting at `start` whose prompt fits the token budget. A chunk holds at least one unit.
+ */
+export const findChunkEnd = (unitTokens: number[], start: number, fixedTokens: number, tokenBudget: number): number => {
+  let end = start;
+  let tokens = fixedTokens;
+  while (end < unitTokens.length && (end === start || tokens + unitTokens[end] <= tokenBudget)) {
+    tokens += unitTokens[end];
+    end++;
+  }
+  return end;
+};
+
+export const processTmxInChunks = async (options: ChunkProcessorOptions): Promise<TerminologyPair[]> => {
   const { 
     tmxData, 
     datasetInfo, 
-    apiKey, 
+    providerSettings, 
     modelName, 
     onChunkProgress,
-    maxTokensPerChunk = 100000 // Default max tokens per chunk
+    onChunkStatus,
+    maxTokensPerChunk = 100000, // Default max tokens per chunk
+    inputTokenLimit,
+    adaptiveChunkSize = true,
+    onChunkSizeDecision,
+    onUsage,
+    inlineCodeMode = 'strip',
+    includeMetadata = false,
+    concurrency = 1,
+    rateLimits = {},
+    jobControl,
+    checkpoint,
+    onCheckpoint
   } = options;
+  const signal = jobControl?.signal;
   
+  const provider = resolveProvider(providerSettings);
+  const rateLimiter = createRateLimiter(rateLimits);
   const allTranslationUnits = tmxData.translationUnits;
   const totalUnits = allTranslationUnits.length;
   let processedUnits = 0;
-  let allTerms: Array<{sourceTerm: string, targetTerm: string}> = [];
+  let allTerms: TerminologyPair[] = [];
   let failedChunks = 0;
+  let fatalError: ApiError | undefined;
   
-  console.log(`Processing ${totalUnits} translation units in chunks of ~${maxTokensPerChunk} tokens`);
+  const promptOptions = { inlineCodeMode, includeMetadata };
   
-  // Create chunks based on token estimation
-  const chunks: Array<typeof tmxData.translationUnits> = [];
-  let currentChunk: typeof tmxData.translationUnits = [];
-  let currentChunkTokens = 0;
+  // The offline estimate is scaled to the provider's own count of a sample prompt
+  const tokenRatio = await calibrateTokenEstimate(provider, providerSettings, modelName, tmxData, datasetInfo, promptOptions, signal);
+  const countPromptTokens = (text: string) => Math.ceil(estimateTokens(text) * tokenRatio);
+  const tokenBudget = chunkTokenBudget(maxTokensPerChunk, inputTokenLimit);
   
-  for (const unit of allTranslationUnits) {
-    const unitTokens = estimateTokens(unit.source + unit.target);
-    
-    // If adding this unit would exceed our token limit, start a new chunk
-    if (currentChunkTokens + unitTokens > maxTokensPerChunk && currentChunk.length > 0) {
-      chunks.push(currentChunk);
-      currentChunk = [];
-      currentChunkTokens = 0;
+  // Adaptive sizing goes down to a tenth of the budget; without it every chunk gets the whole budget
+  const sizer = createChunkSizer(adaptiveChunkSize ? Math.ceil(tokenBudget * MIN_CHUNK_BUDGET_SHARE) : tokenBudget, tokenBudget);
+  
+  console.log(`Processing ${totalUnits} translation units in prompts of up to ${tokenBudget} tokens${adaptiveChunkSize ? " (adaptive)" : ""}, ${concurrency} at a time`);
+  
+  // Chunks are cut so their final prompt, instructions and dataset info included, fits the budget
+  const { fixedTokens, unitTokens } = measurePromptTokens(tmxData, datasetInfo, promptOptions, countPromptTokens);
+  
+  // Chunks are only cut when a worker is free, so their size can follow the answers so far
+  const chunks: TranslationUnit[][] = [];
+  // Estimated prompt tokens of every chunk
+  const chunkTokens: number[] = [];
+  const checkpoints: ChunkCheckpoint[] = [];
+  const statuses: ChunkStatus[] = [];
+  
+  const addChunk = (entry: ChunkCheckpoint) => {
+    const units = allTranslationUnits.slice(entry.start, entry.end);
+    const done = entry.state === 'done';
+    chunks.push(units);
+    chunkTokens.push(unitTokens.slice(entry.start, entry.end).reduce((sum, tokens) => sum + tokens, fixedTokens));
+    checkpoints.push(entry);
+    statuses.push({
+      index: statuses.length,
+      units: units.length,
+      state: done ? 'done' : 'pending',
+      attempts: 0,
+      terms: done ? entry.terms.length : 0
+    });
+    if (done) processedUnits += units.length;
+  };
+  const cutUnits = () => (checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].end : 0);
+  
+  // A resumed job keeps its chunk boundaries, so chunk results stay valid whatever the chunk size is now
+  if (checkpoint && checkpoint.length > 0) {
+    if (checkpoint[checkpoint.length - 1].end <= totalUnits) {
+      checkpoint.forEach(saved => addChunk({ ...saved }));
+      console.log(`Resuming with ${checkpoints.filter(saved => saved.state === 'done').length} of ${checkpoints.length} chunks already done`);
+    } else {
+      console.warn("Checkpoint does not match the data, starting over");
     }
-    
-    // Add the unit to the current chunk
-    currentChunk.push(unit);
-    currentChunkTokens += unitTokens;
   }
   
-  // Add the last chunk if it has any units
-  if (currentChunk.length > 0) {
-    chunks.push(currentChunk);
-  }
+  // The next chunk takes the units no chunk holds yet, up to the size the sizer asks for now
+  const cutChunk = () => {
+    const start = cutUnits();
+    const end = findChunkEnd(unitTokens, start, fixedTokens, sizer.tokens());
+    addChunk({ start, end, state: 'pending', terms: [] });
+    console.log(`Chunk ${checkpoints.length}: units ${start + 1}-${end}, ~${chunkTokens[chunkTokens.length - 1]} tokens`);
+  };
   
-  console.log(`Split data into ${chunks.length} chunks`);
+  const saveCheckpoint = (index: number, update: Partial<ChunkCheckpoint>) => {
+    checkpoints[index] = { ...checkpoints[index], ...update };
+    onCheckpoint?.([...checkpoints]);
+  };
+  onCheckpoint?.([...checkpoints]);
   
-  // Process each chunk with retry mechanism
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    console.log(`Processing chunk ${i+1}/${chunks.length} with ${chunk.length} units`);
-    
-    // Create a temporary tmxData object with just this chunk
-    const chunkTmxData = {
-      ...tmxData,
-      translationUnits: chunk
-    };
-    
-    // Generate prompt for this chunk
-    const prompt = generatePrompt(chunkTmxData, datasetInfo);
+  const updateStatus = (index: number, update: Partial<ChunkStatus>) => {
+    statuses[index] = { ...statuses[index], ...update };
+    onChunkStatus?.([...statuses]);
+  };
+  onChunkStatus?.([...statuses]);
+  
+  // Process one chunk with retry mechanism
+  const processChunk = async (chunk: typeof tmxData.translationUnits, i: number): Promise<TerminologyPair[]> => {
+    if (checkpoints[i].state === 'done') return checkpoints[i].terms;
+    console.log(`Processing chunk ${i+1} with ${chunk.length} units`);
     
-    let chunkTerms: Array<{sourceTerm: string, targetTerm: string}> = [];
-    let retryCount = 0;
-    const maxRetries = 2;
+    let chunkTerms: TerminologyPair[] = [];
+    let chunkError: ApiError | undefined;
+    // Attempts of all parts of the chunk
+    let attempts = 0;
+    let parts = 1;
     
-    // Retry logic for API calls
-    while (retryCount <= maxRetries) {
-      try {
-        // Call API with the chunk - now returns empty array on error instead of throwing
-        chunkTerms = await callGeminiApi(apiKey, modelName, prompt);
-        
-        if (chunkTerms.length > 0) {
-          console.log(`Chunk ${i+1} extracted ${chunkTerms.length} terms on attempt ${retryCount + 1}`);
-          break; // Success, exit retry loop
-        } else if (retryCount < maxRetries) {
-          console.warn(`Chunk ${i+1} returned no terms on attempt ${retryCount + 1}, retrying...`);
-          retryCount++;
-          // Wait before retrying (exponential backoff)
-          await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, retryCount)));
-        } else {
-          console.error(`Chunk ${i+1} failed to return terms after ${maxRetries + 1} attempts`);
-          failedChunks++;
-          break; // Max retries reached, continue to next chunk
-        }
-      } catch (error) {
-        if (retryCount < maxRetries) {
-          console.warn(`Error processing chunk ${i+1} on attempt ${retryCount + 1}, retrying:`, error);
-          retryCount++;
+    // Send units until they give terms or retrying is pointless. An answer cut off at the output
+    // limit keeps its complete pairs, and the units are split in halves that are sent on their own.
+    const extractUnits = async (units: TranslationUnit[], partLabel: string): Promise<TerminologyPair[]> => {
+      const prompt = generatePrompt({ ...tmxData, translationUnits: units }, datasetInfo, promptOptions);
+      const promptTokens = countPromptTokens(prompt);
+      console.log(`${partLabel} prompt: ~${promptTokens} tokens`);
+      
+      let terms: TerminologyPair[] = [];
+      let attempt = 0;
+      // Retry logic for API calls; a fatal error of any chunk stops the others
+      while (!fatalError) {
+        // A paused job holds its chunks here until it is resumed
+        await jobControl?.waitWhilePaused();
+        // Every attempt counts against the rate limits
+        await rateLimiter.acquire(promptTokens, signal);
+        if (fatalError) break;
+        attempt++;
+        attempts++;
+        updateStatus(i, { state: attempts === 1 ? 'running' : 'retrying', attempts });
+        try {
+          // Unreadable answers come back as an empty array, failed requests are thrown
+          terms = await provider.extractTerms(providerSettings, modelName, prompt, signal, onUsage);
+          chunkError = undefined;
+          
+          if (terms.length > 0) {
+            console.log(`${partLabel} extracted ${terms.length} terms on attempt ${attempt}`);
+            break; // Success, exit retry loop
+          }
+          if (attempt > MAX_RETRIES) {
+            console.error(`${partLabel} failed to return terms after ${attempt} attempts`);
+            break; // Max retries reached, continue to next chunk
+          }
+          console.warn(`${partLabel} returned no terms on attempt ${attempt}, retrying...`);
           // Wait before retrying (exponential backoff)
-          await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, retryCount)));
-        } else {
-          console.error(`Failed to process chunk ${i+1} after ${maxRetries + 1} attempts:`, error);
-          failedChunks++;
-          break; // Max retries reached, continue to next chunk
+          await delay(1000 * Math.pow(2, attempt), signal);
+        } catch (error) {
+          if (isCancelled(error, signal)) throw error;
+          chunkError = toApiError(error);
+          const label = ERROR_KIND_LABELS[chunkError.kind];
+          updateStatus(i, { error: { kind: chunkError.kind, message: chunkError.message } });
+          
+          if (chunkError.fatal) {
+            console.error(`${label} error on ${partLabel}, stopping the job:`, chunkError.message);
+            fatalError = fatalError || chunkError;
+            break;
+          }
+          // A prompt over the model's context limit gets no answer at all, so there is nothing to salvage
+          if ((chunkError.kind === 'truncation' || chunkError.kind === 'context-length') && units.length > 1) {
+            const salvaged = salvageTerminologyPairs(chunkError.partialText);
+            const half = Math.ceil(units.length / 2);
+            parts++;
+            updateStatus(i, { parts });
+            console.warn(chunkError.kind === 'truncation'
+              ? `${partLabel} was cut off after ${salvaged.length} complete terms, sending its ${units.length} units in two parts`
+              : `${partLabel} is too long for the model, sending its ${units.length} units in two parts`);
+            const firstTerms = await extractUnits(units.slice(0, half), `${partLabel}.1`);
+            const secondTerms = await extractUnits(units.slice(half), `${partLabel}.2`);
+            // The salvaged pairs overlap with those of the first part; deduplication merges them
+            return [...salvaged, ...firstTerms, ...secondTerms];
+          }
+          if (chunkError.kind === 'truncation') {
+            terms = salvageTerminologyPairs(chunkError.partialText);
+            console.warn(`${partLabel} was cut off and cannot be split further, keeping ${terms.length} complete terms`);
+            break;
+          }
+          const retryLimit = chunkError.kind === 'rate-limit' ? MAX_RATE_LIMIT_RETRIES : MAX_RETRIES;
+          if (!chunkError.retryable || attempt > retryLimit) {
+            console.error(`Failed to process ${partLabel} after ${attempt} attempts (${label}):`, chunkError.message);
+            break; // Sending it again would not help, continue to next chunk
+          }
+          // Wait as long as the API asked, or back off exponentially
+          const retryDelay = chunkError.retryAfterMs ?? 1000 * Math.pow(2, attempt);
+          console.warn(`${label} error on ${partLabel}, attempt ${attempt}, retrying in ${Math.ceil(retryDelay / 1000)}s:`, chunkError.message);
+          await delay(retryDelay, signal);
         }
       }
+      return terms;
+    };
+    
+    try {
+      chunkTerms = await extractUnits(chunk, `Chunk ${i+1}`);
+    } catch (error) {
+      if (!isCancelled(error, signal)) throw error;
+      // The answer of a cancelled chunk is dropped, even if it arrives later
+      console.log(`Chunk ${i+1} cancelled`);
+      updateStatus(i, { state: 'skipped', error: undefined });
+      return [];
+    }
+    
+    // Placeholder tokens sent with the segments must not end up in the glossary
+    if (inlineCodeMode === 'placeholder') {
+      chunkTerms = chunkTerms.map(term => ({
+        sourceTerm: stripPlaceholderTokens(term.sourceTerm),
+        targetTerm: stripPlaceholderTokens(term.targetTerm)
+      }));
     }
     
-    // Add these terms to our collection
-    allTerms = [...allTerms, ...chunkTerms];
+    if (attempts === 0) {
+      updateStatus(i, { state: 'skipped' });
+      return [];
+    }
+    if (chunkTerms.length === 0) failedChunks++;
+    updateStatus(i, {
+      state: chunkTerms.length > 0 ? 'done' : 'failed',
+      terms: chunkTerms.length,
+      error: chunkTerms.length > 0 ? undefined : chunkError ? { kind: chunkError.kind, message: chunkError.message } : undefined
+    });
+    
+    // Chunks cut from now on are sized by how this one went
+    const decision = sizer.record(i, { dataTokens: chunkTokens[i] - fixedTokens, terms: chunkTerms.length, truncated: parts > 1 });
+    if (decision) {
+      console.log(`Chunk size ${decision.previousTokens} → ${decision.tokens} tokens after chunk ${i+1}: ${CHUNK_SIZE_REASON_LABELS[decision.reason]}`);
+      onChunkSizeDecision?.(decision);
+    }
     
     // Update progress
     processedUnits += chunk.length;
     const progress = Math.min(100, Math.floor((processedUnits / totalUnits) * 100));
     onChunkProgress(progress);
+    
+    // Attributed to the units they came from
+    const attributedTerms = attributeTerms(chunkTerms, chunk);
+    saveCheckpoint(i, { state: chunkTerms.length > 0 ? 'done' : 'failed', terms: attributedTerms });
+    return attributedTerms;
+  };
+  
+  // Resumed chunks go first, then new ones are cut until every unit has a chunk.
+  // A stopped job cuts no more; its remaining units are left for a resumed run.
+  let nextIndex = 0;
+  const takeNextChunk = (): number | undefined => {
+    if (nextIndex === chunks.length) {
+      if (cutUnits() >= totalUnits || fatalError || signal?.aborted) return undefined;
+      cutChunk();
+    }
+    return nextIndex++;
+  };
+  
+  // Chunks finish in any order, but their terms are assembled in document order
+  // so deduplication keeps the same first occurrence as a sequential run
+  const chunkResults: TerminologyPair[][] = [];
+  await runQueueWithConcurrency(takeNextChunk, concurrency, async index => {
+    chunkResults[index] = await processChunk(chunks[index], index);
+  });
+  allTerms = chunkResults.flat();
+  
+  if (signal?.aborted) {
+    console.log(`Job cancelled, keeping the terms of ${statuses.filter(status => status.state === 'done').length} finished chunks`);
   }
   
   // Log completion status
@@ -173,5 +515,8 @@ export const processTmxInChunks = async (options: ChunkProcessorOptions): Promis
   const uniqueTerms = deduplicateTerms(allTerms);
   console.log(`Total terms after deduplication: ${uniqueTerms.length}`);
   
+  if (fatalError) {
+    throw new PartialExtractionError(fatalError, uniqueTerms);
+  }
   return uniqueTerms;
 };
@@ -0,0 +1,90 @@
+/**
+ * Chunk size that follows how the model copes with the job: smaller after cut-off answers,
+ * failures or a poor yield of terms, and larger again while answers are healthy
+ */
+
+export type ChunkSizeReason = 'truncated' | 'failed' | 'low-yield' | 'healthy';
+
+export const CHUNK_SIZE_REASON_LABELS: Record<ChunkSizeReason, string> = {
+  truncated: "answer cut off",
+  failed: "no terms returned",
+  'low-yield': "few terms for its size",
+  healthy: "healthy answer"
+};
+
+// How the token budget changes after each kind of answer
+const SIZE_FACTORS: Record<ChunkSizeReason, number> = {
+  truncated: 0.5,
+  failed: 0.5,
+  'low-yield': 0.75,
+  healthy: 1.25
+};
+
+// A chunk yielding less than this share of the job's average terms per data token is suspicious
+const LOW_YIELD_RATIO = 0.4;
+// Healthy chunks needed before the average yield is trusted
+const MIN_YIELD_SAMPLES = 2;
+
+/**
+ * How one chunk went, as recorded once it finished
+ */
+export interface ChunkOutcome {
+  // Tokens of the chunk's units, without the instructions every prompt has
+  dataTokens: number;
+  terms: number;
+  // The answer was cut off and the chunk was sent again in parts
+  truncated: boolean;
+}
+
+/**
+ * A change of the chunk size, for the job log
+ */
+export interface ChunkSizeDecision {
+  // Chunk whose answer led to the change
+  chunkIndex: number;
+  reason: ChunkSizeReason;
+  previousTokens: number;
+  tokens: number;
+  termsPerThousandTokens: number;
+}
+
+export interface ChunkSizer {
+  // Token budget of the next chunk
+  tokens: () => number;
+  // Returns the decision when the outcome changed the budget
+  record: (chunkIndex: number, outcome: ChunkOutcome) => ChunkSizeDecision | null;
+}
+
+/**
+ * Create a sizer that starts at the largest budget and stays between the two limits.
+ * With equal limits the size never changes.
+ */
+export const createChunkSizer = (minTokens: number, maxTokens: number): ChunkSizer => {
+  let tokens = maxTokens;
+  // Terms per thousand data tokens of the healthy chunks so far
+  const yields: number[] = [];
+
+  const classify = (outcome: ChunkOutcome, termsPerThousandTokens: number): ChunkSizeReason => {
+    if (outcome.truncated) return 'truncated';
+    if (outcome.terms === 0) return 'failed';
+    if (yields.length >= MIN_YIELD_SAMPLES) {
+      const averageYield = yields.reduce((sum, value) => sum + value, 0) / yields.length;
+      if (termsPerThousandTokens < averageYield * LOW_YIELD_RATIO) return 'low-yield';
+    }
+    return 'healthy';
+  };
+
+  return {
+    tokens: () => tokens,
+    record: (chunkIndex, outcome) => {
+      const termsPerThousandTokens = outcome.dataTokens > 0 ? (outcome.terms * 1000) / outcome.dataTokens : 0;
+      const reason = classify(outcome, termsPerThousandTokens);
+      if (reason === 'healthy') yields.push(termsPerThousandTokens);
+
+      const previousTokens = tokens;
+      tokens = Math.round(Math.min(maxTokens, Math.max(minTokens, tokens * SIZE_FACTORS[reason])));
+      if (tokens === previousTokens) return null;
+      return { chunkIndex, reason, previousTokens, tokens, termsPerThousandTokens };
+    }
+  };
+};
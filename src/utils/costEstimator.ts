@@ -0,0 +1,115 @@
+/**
+ * Token and cost estimates of an extraction before it runs, and its cost from the usage the APIs report
+ */
+import { TmxData } from './tmxParser';
+import { PromptOptions } from './promptGenerator';
+import { ANSWER_TOKEN_RESERVE, TERMINOLOGY_SYSTEM_PROMPT, TokenUsage, estimateTokens } from './llmProvider';
+import { findChunkEnd, measurePromptTokens } from './chunkProcessor';
+import { runStoreRequest } from './indexedDb';
+
+const SETTINGS_STORE = 'settings';
+const PRICES_KEY = 'modelPrices';
+
+// Answers list the terms of a chunk, which usually take about a fifth of its data tokens
+const OUTPUT_TOKEN_SHARE = 0.2;
+
+/**
+ * Price of a model in US dollars per million tokens. The entry applies to every model whose
+ * name contains `model`; the longest matching entry wins.
+ */
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// List prices of the common models when this table was written. Providers change them, so the table can be edited.
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  { model: 'gemini-2.5-flash-lite', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: 'gemini-2.0-flash', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: 'gemini-2.0-flash-lite', inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  { model: 'gemini-1.5-pro', inputPerMillion: 1.25, outputPerMillion: 5 },
+  { model: 'gemini-1.5-flash', inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  { model: 'gpt-5', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: 'gpt-5-mini', inputPerMillion: 0.25, outputPerMillion: 2 },
+  { model: 'gpt-5-nano', inputPerMillion: 0.05, outputPerMillion: 0.4 },
+  { model: 'gpt-4.1', inputPerMillion: 2, outputPerMillion: 8 },
+  { model: 'gpt-4.1-mini', inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  { model: 'gpt-4.1-nano', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'o4-mini', inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  { model: 'o3-mini', inputPerMillion: 1.1, outputPerMillion: 4.4 }
+];
+
+/**
+ * The price table saved in this browser, or the default one
+ */
+export const loadModelPrices = async (): Promise<ModelPrice[]> => {
+  const saved = await runStoreRequest<{ key: string; prices: ModelPrice[] } | undefined>(
+    SETTINGS_STORE,
+    'readonly',
+    store => store.get(PRICES_KEY)
+  );
+  return saved?.prices || DEFAULT_MODEL_PRICES;
+};
+
+export const saveModelPrices = async (prices: ModelPrice[]): Promise<void> => {
+  await runStoreRequest(SETTINGS_STORE, 'readwrite', store => store.put({ key: PRICES_KEY, prices }));
+};
+
+export const findModelPrice = (prices: ModelPrice[], modelName: string): ModelPrice | undefined => {
+  const name = modelName.replace(/^models\//, '').toLowerCase();
+  return prices
+    .filter(price => price.model && name.includes(price.model.toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+};
+
+export const calculateCost = (usage: TokenUsage, price: ModelPrice): number => {
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1000000;
+};
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens
+});
+
+/**
+ * Dollar amount with enough decimals to show the cost of small runs, e.g. "$0.0042" or "$12.30"
+ */
+export const formatCost = (cost: number): string => {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+};
+
+export interface ExtractionEstimate extends TokenUsage {
+  chunks: number;
+}
+
+/**
+ * Chunks and tokens of an extraction at a fixed chunk size, counted offline. Adaptive sizing,
+ * retries and re-sent parts of cut-off answers add to it.
+ */
+export const estimateExtraction = (
+  pairs: TmxData[],
+  datasetInfo: string,
+  promptOptions: PromptOptions,
+  tokenBudget: number
+): ExtractionEstimate => {
+  const systemTokens = estimateTokens(TERMINOLOGY_SYSTEM_PROMPT);
+  const estimate: ExtractionEstimate = { chunks: 0, inputTokens: 0, outputTokens: 0 };
+
+  pairs.forEach(pairData => {
+    const { fixedTokens, unitTokens } = measurePromptTokens(pairData, datasetInfo, promptOptions);
+    for (let start = 0; start < unitTokens.length;) {
+      const end = findChunkEnd(unitTokens, start, fixedTokens, tokenBudget);
+      const dataTokens = unitTokens.slice(start, end).reduce((sum, tokens) => sum + tokens, 0);
+      estimate.chunks++;
+      estimate.inputTokens += systemTokens + fixedTokens + dataTokens;
+      estimate.outputTokens += Math.min(ANSWER_TOKEN_RESERVE, Math.ceil(dataTokens * OUTPUT_TOKEN_SHARE));
+      start = end;
+    }
+  });
+  return estimate;
+};
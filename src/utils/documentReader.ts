@@ -0,0 +1,58 @@
+/**
+ * Utility functions for reading the text of plain-text and DOCX documents
+ */
+import JSZip from 'jszip';
+import { FileContentError, getFileExtension } from './fileParser';
+import { readFileText } from './encoding';
+
+export const DOCUMENT_EXTENSIONS = ['.txt', '.docx'];
+
+/**
+ * Paragraph texts of a DOCX file. Tabs and line breaks inside a paragraph are kept as whitespace.
+ */
+const readDocxParagraphs = async (file: File): Promise<string[]> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new FileContentError("Document body not found in DOCX file");
+  }
+
+  const xmlDoc = new DOMParser().parseFromString(documentXml, "text/xml");
+  const elements = Array.from(xmlDoc.querySelectorAll('*'));
+
+  return elements
+    .filter(element => element.localName === 'p')
+    .map(paragraph => {
+      let text = "";
+      Array.from(paragraph.querySelectorAll('*')).forEach(element => {
+        if (element.localName === 't') text += element.textContent || "";
+        else if (element.localName === 'tab') text += "\t";
+        else if (element.localName === 'br') text += "\n";
+      });
+      return text;
+    });
+};
+
+/**
+ * Read a document into paragraphs, dropping empty ones
+ */
+export const readDocumentParagraphs = async (file: File, encoding?: string): Promise<string[]> => {
+  try {
+    const extension = getFileExtension(file.name);
+    const paragraphs = extension === '.docx'
+      ? await readDocxParagraphs(file)
+      : (await readFileText(file, encoding)).split(/\r?\n/);
+
+    const nonEmpty = paragraphs.map(paragraph => paragraph.trim()).filter(Boolean);
+    if (nonEmpty.length === 0) {
+      throw new FileContentError("The document contains no text");
+    }
+
+    console.log(`Document ${file.name}: ${nonEmpty.length} paragraphs`);
+    return nonEmpty;
+  } catch (error) {
+    console.error('Error reading document:', error);
+    if (error instanceof FileContentError) throw error;
+    throw new Error(`Failed to read ${file.name}. Please ensure it is a plain-text file or a DOCX document, and choose its encoding manually if the text is garbled.`);
+  }
+};
@@ -0,0 +1,121 @@
+/**
+ * Character encoding detection and decoding for uploaded files
+ */
+
+export const AUTO_ENCODING = 'auto';
+
+// Encodings offered for manual override, as WHATWG encoding labels
+export const ENCODING_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: AUTO_ENCODING, label: "Auto-detect" },
+  { value: 'utf-8', label: "UTF-8" },
+  { value: 'utf-16le', label: "UTF-16 LE" },
+  { value: 'utf-16be', label: "UTF-16 BE" },
+  { value: 'windows-1252', label: "Western (Windows-1252)" },
+  { value: 'iso-8859-1', label: "Western (ISO-8859-1)" },
+  { value: 'windows-1250', label: "Central European (Windows-1250)" },
+  { value: 'windows-1251', label: "Cyrillic (Windows-1251)" },
+  { value: 'windows-1253', label: "Greek (Windows-1253)" },
+  { value: 'windows-1254', label: "Turkish (Windows-1254)" },
+  { value: 'shift_jis', label: "Japanese (Shift_JIS)" },
+  { value: 'gb18030', label: "Chinese Simplified (GB18030)" },
+  { value: 'big5', label: "Chinese Traditional (Big5)" },
+  { value: 'euc-kr', label: "Korean (EUC-KR)" }
+];
+
+export interface DetectedEncoding {
+  encoding: string;
+  // What the detection was based on
+  source: 'bom' | 'declaration' | 'content' | 'default';
+}
+
+// Bytes read from the start of a file for detection
+const SNIFF_LENGTH = 64 * 1024;
+
+/**
+ * Whether TextDecoder supports an encoding label
+ */
+const isSupportedEncoding = (label: string): boolean => {
+  try {
+    new TextDecoder(label);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Detect the encoding of a file from its first bytes: byte order mark first, then the
+ * encoding in the XML declaration, then whether the bytes are valid UTF-8.
+ * Files that are not valid UTF-8 and declare nothing are assumed to be Windows-1252.
+ */
+export const detectEncoding = (bytes: Uint8Array, isWholeFile = true): DetectedEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', source: 'bom' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', source: 'bom' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', source: 'bom' };
+  }
+
+  // UTF-16 without a byte order mark, recognised by the "<?" of the XML declaration
+  if (bytes[0] === 0x3c && bytes[1] === 0x00 && bytes[2] === 0x3f && bytes[3] === 0x00) {
+    return { encoding: 'utf-16le', source: 'content' };
+  }
+  if (bytes[0] === 0x00 && bytes[1] === 0x3c && bytes[2] === 0x00 && bytes[3] === 0x3f) {
+    return { encoding: 'utf-16be', source: 'content' };
+  }
+
+  // The declaration is plain ASCII in every ASCII-compatible encoding
+  const head = new TextDecoder('iso-8859-1').decode(bytes.subarray(0, 1024));
+  const declaration = head.match(/^\s*<\?xml[^>]*\bencoding\s*=\s*["']([A-Za-z0-9._:-]+)["']/);
+  if (declaration) {
+    const declared = declaration[1].toLowerCase();
+    // A declared UTF-16 without the bytes to match cannot be right; the file was re-saved
+    if (!declared.startsWith('utf-16') && isSupportedEncoding(declared)) {
+      return { encoding: declared, source: 'declaration' };
+    }
+  }
+
+  try {
+    // A sample cut from a larger file may end in the middle of a character
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: !isWholeFile });
+    return { encoding: 'utf-8', source: 'default' };
+  } catch {
+    return { encoding: 'windows-1252', source: 'content' };
+  }
+};
+
+/**
+ * Detect the encoding of a file from its first bytes
+ */
+export const detectFileEncoding = async (file: Blob): Promise<DetectedEncoding> => {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+  const detected = detectEncoding(bytes, file.size <= SNIFF_LENGTH);
+  console.log(`Detected encoding ${detected.encoding} (from ${detected.source})`);
+  return detected;
+};
+
+/**
+ * Resolve the encoding to decode a file with: the given one unless it is missing or "auto"
+ */
+export const resolveEncoding = async (file: Blob, encoding?: string): Promise<string> => {
+  if (encoding && encoding !== AUTO_ENCODING) return encoding;
+  return (await detectFileEncoding(file)).encoding;
+};
+
+/**
+ * Read a whole file as text in the given or detected encoding. A byte order mark is removed.
+ */
+export const readFileText = async (file: Blob, encoding?: string): Promise<string> => {
+  const resolved = await resolveEncoding(file, encoding);
+  return new TextDecoder(resolved).decode(await file.arrayBuffer());
+};
+
+/**
+ * Display name of an encoding label, e.g. "UTF-16 LE"
+ */
+export const getEncodingLabel = (encoding: string): string => {
+  return ENCODING_OPTIONS.find(option => option.value === encoding)?.label || encoding.toUpperCase();
+};
@@ -0,0 +1,87 @@
+/**
+ * Entry point for reading any supported bilingual file into TmxData
+ */
+import { TmxData, TmxParseOptions, groupLanguageVariants, parseTmxFile } from './tmxParser';
+import { parseXliffFile } from './xliffParser';
+import { parsePoFile } from './poParser';
+
+export const TMX_EXTENSIONS = ['.tmx'];
+export const XLIFF_EXTENSIONS = ['.xlf', '.xliff', '.sdlxliff', '.mqxliff'];
+export const PO_EXTENSIONS = ['.po'];
+// Resource bundles come in pairs, one file per language, see jsonResourceParser
+export const RESOURCE_EXTENSIONS = ['.json'];
+// Spreadsheets need a column mapping before they can be converted, see spreadsheetParser
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.tsv', '.xlsx'];
+export const SUPPORTED_EXTENSIONS = [...TMX_EXTENSIONS, ...XLIFF_EXTENSIONS, ...PO_EXTENSIONS, ...RESOURCE_EXTENSIONS, ...SPREADSHEET_EXTENSIONS];
+
+/**
+ * A file that was read but cannot be used; its message already tells the user why, so readers pass it
+ * through unchanged instead of replacing it with their generic hint
+ */
+export class FileContentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileContentError';
+  }
+}
+
+/**
+ * Lower-cased extension of a file name including the dot, e.g. ".sdlxliff"
+ */
+export const getFileExtension = (fileName: string): string => {
+  return '.' + (fileName.split('.').pop() || '').toLowerCase();
+};
+
+/**
+ * Whether the file is a CSV, TSV or XLSX table rather than a TMX or XLIFF file
+ */
+export const isSpreadsheetFile = (file: File): boolean => {
+  return SPREADSHEET_EXTENSIONS.includes(getFileExtension(file.name));
+};
+
+/**
+ * Whether the file is a JSON resource bundle that has to be paired with a file in the other language
+ */
+export const isResourceFile = (file: File): boolean => {
+  return RESOURCE_EXTENSIONS.includes(getFileExtension(file.name));
+};
+
+/**
+ * Parse a TMX, XLIFF or PO file, choosing the reader by file extension, and group its
+ * languages as requested
+ */
+export const parseBilingualFile = async (file: File, options: TmxParseOptions = {}): Promise<TmxData> => {
+  const data = await readBilingualFile(file, options);
+  return groupLanguageVariants(data, options.languageGrouping || 'variant');
+};
+
+const readBilingualFile = async (file: File, options: TmxParseOptions): Promise<TmxData> => {
+  const extension = getFileExtension(file.name);
+
+  if (XLIFF_EXTENSIONS.includes(extension)) {
+    const data = await parseXliffFile(file, options.encoding);
+    // XLIFF is read in one go, so progress jumps straight to the end
+    options.onProgress?.(file.size, file.size);
+    return data;
+  }
+
+  if (PO_EXTENSIONS.includes(extension)) {
+    const data = await parsePoFile(file, options.encoding);
+    options.onProgress?.(file.size, file.size);
+    return data;
+  }
+
+  if (TMX_EXTENSIONS.includes(extension)) {
+    return parseTmxFile(file, options);
+  }
+
+  if (RESOURCE_EXTENSIONS.includes(extension)) {
+    throw new Error("Resource files need a counterpart in the other language; use parseJsonResourcePair instead");
+  }
+
+  if (SPREADSHEET_EXTENSIONS.includes(extension)) {
+    throw new Error("Spreadsheet files need a column mapping; use readSpreadsheetFile and spreadsheetToTmxData instead");
+  }
+
+  throw new Error(`Unsupported file type "${extension}". Supported types: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+};
@@ -1,175 +1,288 @@
-
 /**
  * Utilities for interacting with the Gemini API through Google GenAI SDK
  */
-import { GoogleGenAI } from "@google/genai";
-import { z } from "zod";
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import {
+  JsonSchema,
+  LlmModel,
+  LlmProvider,
+  ProviderHealth,
+  ProviderSettings,
+  TERMINOLOGY_SCHEMA,
+  TokenUsage,
+  TERMINOLOGY_SYSTEM_PROMPT,
+  parseTerminologyResponse
+} from './llmProvider';
+import { ApiError, classifyStatus, parseRetryAfter, toApiError } from './apiErrors';
+import { JobCancelledError, abortable } from './jobControl';
 
-interface TerminologyPair {
-  sourceTerm: string;
-  targetTerm: string;
-}
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
 
-// Define the schema for terminology pairs
-const TerminologyPairSchema = z.object({
-  sourceTerm: z.string().describe('Term in the source language'),
-  targetTerm: z.string().describe('Term in the target language'),
+/**
+ * Translate a JSON schema into the OpenAPI-style schema Gemini expects
+ */
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: GEMINI_TYPES[schema.type],
+  description: schema.description,
+  required: schema.required,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined
 });
 
-const TerminologyResponseSchema = z.object({
-  terminologyPairs: z.array(TerminologyPairSchema),
-});
+// Normalize model name by removing any "models/" prefix if present
+const normalizeModelName = (modelName: string): string => modelName.replace(/^models\//, '');
+
+// Format model name for display if no displayName is provided
+const formatModelName = (name: string): string => {
+  const baseName = name.split('/').pop() || name;
+  return baseName
+    .replace('gemini-', 'Gemini ')
+    .replace(/-/g, ' ')
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+// Finish reasons of answers withheld by Gemini's content filters
+const BLOCKED_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+];
+
+interface GeminiErrorBody {
+  error?: {
+    message?: string;
+    status?: string;
+    details?: Array<{ '@type'?: string; retryDelay?: string; violations?: Array<{ quotaId?: string }> }>;
+  };
+}
 
 /**
- * Call the Gemini API to extract terminology pairs with structured output
+ * Classify an error of the SDK, which puts the HTTP status and the JSON error body in its message
  */
-export const callGeminiApi = async (
-  apiKey: string, 
-  modelNameInput: string, 
-  prompt: string
-): Promise<TerminologyPair[]> => {
+const toGeminiApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError || !(error instanceof Error)) return toApiError(error);
+
+  const statusMatch = error.message.match(/got status: (\d{3})/);
+  if (!statusMatch) return toApiError(error);
+  const status = parseInt(statusMatch[1]);
+
+  let body: GeminiErrorBody = {};
+  try {
+    body = JSON.parse(error.message.slice(error.message.indexOf('{')));
+  } catch {
+    // Not every error has a JSON body
+  }
+  const details = body.error?.details || [];
+  const retryDelay = details.find(detail => detail.retryDelay)?.retryDelay;
+  // Quota ids such as "GenerateRequestsPerDayPerProjectPerModel" tell daily quotas from per-minute limits
+  const quotaIds = details.flatMap(detail => detail.violations || []).map(violation => violation.quotaId || '');
+  const message = body.error?.message || error.message;
+
+  return new ApiError(classifyStatus(status, [message, body.error?.status, ...quotaIds].join(' ')), message, {
+    status,
+    retryAfterMs: parseRetryAfter(retryDelay)
+  });
+};
+
+/**
+ * Generate content, turning failed requests, blocked prompts and cut-off answers into ApiErrors.
+ * This SDK version cannot abort a request, so a cancelled job stops waiting for the answer instead.
+ */
+const generateGeminiContent = async (
+  settings: ProviderSettings,
+  params: GenerateContentParameters,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<GenerateContentResponse> => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+  let response: GenerateContentResponse;
   try {
-    console.log("Initializing GoogleGenAI SDK with model:", modelNameInput);
-    
-    // Normalize model name by removing any "models/" prefix if present
-    const modelName = modelNameInput.replace(/^models\//, '');
-    console.log("Using normalized model name:", modelName);
-    
-    // Initialize the GenAI client
-    const genAI = new GoogleGenAI(apiKey);
-    
-    // Create the model
-    const model = genAI.getGenerativeModel(modelName);
-    
-    console.log("Sending request to Gemini API...");
-    
-    // Create system prompt and user prompt
-    const result = await model.generateContent({
-      contents: [
-        { role: "user", parts: [{ 
-          text: `You are a terminology extraction expert. Extract bilingual terminology pairs from the translation memory data provided.
-                
-                ${prompt}`
-        }] }
-      ],
-      generationConfig: {
-        temperature: 0.2,
-        topP: 0.95,
-        maxOutputTokens: 4096,
-        responseMimeType: 'application/json',
-        structuredOutputSchema: {
-          type: "object",
-          properties: {
-            terminologyPairs: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  sourceTerm: {
-                    type: "string",
-                    description: 'Term in the source language',
-                  },
-                  targetTerm: {
-                    type: "string",
-                    description: 'Term in the target language',
-                  },
-                },
-                required: ['sourceTerm', 'targetTerm'],
-              },
-            },
-          },
-          required: ['terminologyPairs'],
-        }
-      },
+    response = await abortable(ai.models.generateContent(params), signal);
+  } catch (error) {
+    if (error instanceof JobCancelledError) throw error;
+    throw toGeminiApiError(error);
+  }
+
+  // Blocked and cut-off answers are billed too
+  const usage = response.usageMetadata;
+  if (usage && onUsage) {
+    onUsage({
+      inputTokens: usage.promptTokenCount ?? 0,
+      // Thinking models bill their thoughts as output
+      outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0)
     });
-    
-    console.log("Received response from Gemini API");
-    
-    // Parse the JSON response
-    try {
-      const response = result.response;
-      const textContent = response.text();
-      console.log("Raw response content:", textContent);
-      
-      if (textContent) {
-        try {
-          const parsedData = JSON.parse(textContent);
-          console.log("Parsed JSON data:", parsedData);
-          
-          if (parsedData.terminologyPairs && Array.isArray(parsedData.terminologyPairs)) {
-            // Make sure all items conform to TerminologyPair interface
-            const validTerms: TerminologyPair[] = parsedData.terminologyPairs
-              .filter(item => 
-                item && 
-                typeof item === 'object' && 
-                typeof item.sourceTerm === 'string' &&
-                typeof item.targetTerm === 'string' &&
-                item.sourceTerm.trim() !== '' &&
-                item.targetTerm.trim() !== ''
-              )
-              .map(item => ({
-                sourceTerm: item.sourceTerm,
-                targetTerm: item.targetTerm
-              }));
-            
-            console.log("Successfully extracted", validTerms.length, "valid terminology pairs");
-            return validTerms;
-          } else {
-            console.warn("Response doesn't contain terminologyPairs array:", parsedData);
-            
-            // Try to extract terms from any structure if possible
-            if (parsedData && typeof parsedData === 'object') {
-              const extractedTerms: TerminologyPair[] = [];
-              
-              // Try to find arrays that might contain terminology pairs
-              Object.values(parsedData).forEach(value => {
-                if (Array.isArray(value)) {
-                  value.forEach(item => {
-                    if (item && typeof item === 'object' && 'sourceTerm' in item && 'targetTerm' in item) {
-                      if (typeof item.sourceTerm === 'string' && typeof item.targetTerm === 'string') {
-                        extractedTerms.push({
-                          sourceTerm: item.sourceTerm,
-                          targetTerm: item.targetTerm
-                        });
-                      }
-                    }
-                  });
-                }
-              });
-              
-              if (extractedTerms.length > 0) {
-                console.log("Found", extractedTerms.length, "terminology pairs in alternative format");
-                return extractedTerms;
-              }
-            }
-          }
-        } catch (parseError) {
-          console.error("Error parsing JSON response:", parseError);
-        }
-      }
-    } catch (responseError) {
-      console.error("Error getting response text:", responseError);
-    }
-    
-    // If we reached here, either the response format was unexpected or parsing failed
-    console.warn("Response format unexpected or parsing failed, returning empty array");
-    return [];
-    
-  } catch (error: any) {
-    console.error('Gemini API call failed:', error);
-    
-    // More detailed error information
-    if (error.response) {
-      console.error('API error response:', error.response);
+  }
+
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ApiError('safety', `Gemini blocked the prompt (${blockReason})`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason === FinishReason.MAX_TOKENS) {
+    throw new ApiError('truncation', "The answer was cut off at the output token limit", { partialText: response.text });
+  }
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new ApiError('safety', `Gemini withheld the answer (${finishReason})`);
+  }
+  return response;
+};
+
+// A model as the models endpoint describes it
+interface GeminiModelEntry {
+  name: string;
+  displayName?: string;
+  description?: string;
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+}
+
+const toGeminiModel = (model: GeminiModelEntry): LlmModel => ({
+  name: model.name,
+  displayName: model.displayName || formatModelName(model.name),
+  description: model.description,
+  inputTokenLimit: model.inputTokenLimit,
+  outputTokenLimit: model.outputTokenLimit
+});
+
+/**
+ * Read the JSON body of a request to the models endpoint, throwing failures as ApiErrors
+ */
+const readGeminiModelsResponse = async <T>(response: Response): Promise<T> => {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error("API Error:", errorData);
+    const message = errorData.error?.message || `API error: ${response.status}`;
+    throw new ApiError(classifyStatus(response.status, message), message, { status: response.status });
+  }
+  return response.json();
+};
+
+/**
+ * List the Gemini models available to an API key
+ */
+const listGeminiModels = async (settings: ProviderSettings): Promise<LlmModel[]> => {
+  console.log("Fetching available models...");
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models?key=${settings.apiKey}`
+  );
+  console.log(`API Response status: ${response.status}`);
+
+  const data = await readGeminiModelsResponse<{ models?: GeminiModelEntry[] }>(response);
+  console.log(`Found ${data.models?.length || 0} models in response`);
+
+  // Filter to include only Gemini models
+  return (data.models || [])
+    .filter(model => model.name.includes("gemini"))
+    .map(toGeminiModel);
+};
+
+/**
+ * Look up the model's metadata, which checks the key and the model without using any quota.
+ * Gemini reports no rate limits in its headers.
+ */
+const checkGeminiHealth = async (settings: ProviderSettings, modelName: string): Promise<ProviderHealth> => {
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${normalizeModelName(modelName)}?key=${settings.apiKey}`
+  );
+  const model = await readGeminiModelsResponse<GeminiModelEntry>(response);
+  return { method: "model metadata lookup", model: toGeminiModel(model) };
+};
+
+/**
+ * Call the Gemini API to extract terminology pairs with structured output.
+ * An answer that cannot be read gives an empty list; failed requests are thrown as ApiErrors.
+ */
+export const callGeminiApi = async (
+  settings: ProviderSettings,
+  modelNameInput: string,
+  prompt: string,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+) => {
+  const modelName = normalizeModelName(modelNameInput);
+  console.log("Sending request to Gemini API with model:", modelName);
+
+  const response = await generateGeminiContent(settings, {
+    model: modelName,
+    contents: prompt,
+    config: {
+      systemInstruction: TERMINOLOGY_SYSTEM_PROMPT,
+      temperature: 0.2,
+      topP: 0.95,
+      maxOutputTokens: 4096,
+      responseMimeType: 'application/json',
+      responseSchema: toGeminiSchema(TERMINOLOGY_SCHEMA)
     }
-    
-    // Try to extract any useful information from the error
-    if (error.message) {
-      console.error('Error message:', error.message);
+  }, signal, onUsage);
+
+  console.log("Received response from Gemini API");
+  return parseTerminologyResponse(response.text);
+};
+
+/**
+ * Send a prompt to Gemini and parse its JSON answer, constrained by a response schema.
+ * Failures are thrown so the caller can fall back to its own result.
+ */
+export const callGeminiJson = async (
+  settings: ProviderSettings,
+  modelNameInput: string,
+  prompt: string,
+  schema: JsonSchema,
+  signal?: AbortSignal
+): Promise<unknown> => {
+  const response = await generateGeminiContent(settings, {
+    model: normalizeModelName(modelNameInput),
+    contents: prompt,
+    config: {
+      temperature: 0,
+      responseMimeType: 'application/json',
+      responseSchema: toGeminiSchema(schema)
     }
-    
-    // Return empty array instead of throwing error to make the application more resilient
-    console.warn('Returning empty array due to API error');
-    return [];
+  }, signal);
+
+  const textContent = response.text;
+  if (!textContent) {
+    throw new Error("Empty response from Gemini API");
   }
+  return JSON.parse(textContent);
+};
+
+/**
+ * Count the tokens of a text with the model's own tokenizer
+ */
+const countGeminiTokens = async (settings: ProviderSettings, modelName: string, text: string): Promise<number> => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+  try {
+    const response = await ai.models.countTokens({ model: normalizeModelName(modelName), contents: text });
+    return response.totalTokens ?? 0;
+  } catch (error) {
+    throw toGeminiApiError(error);
+  }
+};
+
+export const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  label: "Google Gemini",
+  apiKeyUrl: "https://aistudio.google.com/apikey",
+  requiresApiKey: true,
+  minApiKeyLength: 30,
+  supportsBaseUrl: false,
+  listModels: listGeminiModels,
+  extractTerms: callGeminiApi,
+  generateJson: callGeminiJson,
+  countTokens: countGeminiTokens,
+  checkHealth: checkGeminiHealth
 };
@@ -0,0 +1,101 @@
+/**
+ * Types and helpers for extracted terminology glossaries
+ */
+
+/**
+ * Where a term was found: the translation units containing both sides of the pair
+ */
+export interface TermAttribution {
+  occurrences: number;
+  // tuid of the matching units that have one, capped at MAX_ATTRIBUTED_TUIDS
+  tuids: string[];
+  // Prop values of the matching units grouped by prop type, e.g. { project: ["P-104"] }
+  props: Record<string, string[]>;
+  // Uploaded files the matching units came from, when several files were uploaded together
+  files: string[];
+}
+
+export interface TerminologyPair {
+  sourceTerm: string;
+  targetTerm: string;
+  attribution?: TermAttribution;
+}
+
+export const MAX_ATTRIBUTED_TUIDS = 100;
+
+/**
+ * Combine the attributions of two occurrences of the same term
+ */
+export const mergeAttributions = (a?: TermAttribution, b?: TermAttribution): TermAttribution | undefined => {
+  if (!a) return b;
+  if (!b) return a;
+  const props: Record<string, string[]> = { ...a.props };
+  Object.entries(b.props).forEach(([type, values]) => {
+    props[type] = Array.from(new Set([...(props[type] || []), ...values]));
+  });
+  return {
+    occurrences: a.occurrences + b.occurrences,
+    tuids: Array.from(new Set([...a.tuids, ...b.tuids])).slice(0, MAX_ATTRIBUTED_TUIDS),
+    props,
+    files: Array.from(new Set([...a.files, ...b.files]))
+  };
+};
+
+/**
+ * The terminology extracted for one source/target language pair
+ */
+export interface Glossary {
+  sourceLanguage: string;
+  targetLanguage: string;
+  // The uploaded file the glossary was extracted from when files are run as separate jobs
+  sourceFile?: string;
+  terms: TerminologyPair[];
+}
+
+/**
+ * Convert a glossary to CSV content
+ */
+export const glossaryToCsv = (glossary: Glossary): string => {
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+  // Attribution columns are only added when the source file carried TU metadata
+  const hasAttribution = glossary.terms.some(term => term.attribution);
+  if (!hasAttribution) {
+    return [
+      "Source Term,Target Term",
+      ...glossary.terms.map(term => `${escape(term.sourceTerm)},${escape(term.targetTerm)}`)
+    ].join('\n');
+  }
+
+  // The file column is only added for batch uploads
+  const hasFiles = glossary.terms.some(term => term.attribution && term.attribution.files.length > 0);
+
+  return [
+    `Source Term,Target Term,Occurrences,TU IDs,Props${hasFiles ? ",Files" : ""}`,
+    ...glossary.terms.map(term => {
+      const attribution = term.attribution;
+      const props = attribution
+        ? Object.entries(attribution.props).map(([type, values]) => `${type}=${values.join('|')}`).join('; ')
+        : "";
+      const columns = [
+        escape(term.sourceTerm),
+        escape(term.targetTerm),
+        attribution ? attribution.occurrences : "",
+        escape(attribution ? attribution.tuids.join(' ') : ""),
+        escape(props)
+      ];
+      if (hasFiles) columns.push(escape(attribution ? attribution.files.join('; ') : ""));
+      return columns.join(',');
+    })
+  ].join('\n');
+};
+
+/**
+ * Build the download file name for a glossary
+ */
+export const getGlossaryFileName = (glossary: Glossary): string => {
+  const baseName = `extracted_terminology_${glossary.sourceLanguage}_${glossary.targetLanguage}`;
+  if (!glossary.sourceFile) return `${baseName}.csv`;
+  const fileName = glossary.sourceFile.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_');
+  return `${baseName}_${fileName}.csv`;
+};
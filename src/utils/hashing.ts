@@ -0,0 +1,11 @@
+/**
+ * Content hashes for recognising the same prompt or input again
+ */
+
+/**
+ * SHA-256 of a text as a hex string
+ */
+export const hashText = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,81 @@
+/**
+ * Small promise wrapper around the browser's IndexedDB, shared by everything the app keeps between sessions
+ */
+
+const DATABASE_NAME = 'tmx-terminology-extractor';
+const DATABASE_VERSION = 3;
+
+// Object stores and their key paths. Adding a store needs a new DATABASE_VERSION.
+const STORES: Record<string, string> = {
+  recordings: 'key',
+  jobs: 'id',
+  jobInputs: 'id',
+  settings: 'key'
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the app's database, creating missing stores on upgrade
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("This browser does not support IndexedDB"));
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      Object.entries(STORES).forEach(([name, keyPath]) => {
+        if (!database.objectStoreNames.contains(name)) {
+          database.createObjectStore(name, { keyPath });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // A failed open may succeed later, e.g. once another tab releases an old version
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+  return databasePromise;
+};
+
+/**
+ * Run one request against a store and resolve with its result
+ */
+export const runStoreRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error("IndexedDB transaction aborted"));
+  });
+};
+
+/**
+ * Store several records in one transaction, replacing records with the same key
+ */
+export const putStoreRecords = async (storeName: string, records: unknown[]): Promise<void> => {
+  const database = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = database.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    records.forEach(record => store.put(record));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error("IndexedDB transaction aborted"));
+  });
+};
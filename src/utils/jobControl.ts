@@ -0,0 +1,88 @@
+/**
+ * Pause, resume and cancel for a running extraction job
+ */
+
+/**
+ * Thrown by waits and requests of a job once it has been cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super("The job was cancelled");
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface JobControl {
+  // Aborted when the job is cancelled; requests in flight are aborted with it
+  signal: AbortSignal;
+  isPaused: () => boolean;
+  // In-flight requests finish, but no new chunk starts until resume
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Resolves at once while running, on resume while paused; rejects once cancelled
+  waitWhilePaused: () => Promise<void>;
+}
+
+export const isCancelled = (error: unknown, signal?: AbortSignal): boolean => {
+  return error instanceof JobCancelledError || Boolean(signal?.aborted);
+};
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new JobCancelledError();
+};
+
+/**
+ * Settle with the promise, or reject as soon as the signal aborts. For APIs that cannot be
+ * aborted themselves: the request still completes, but its answer is ignored.
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  throwIfCancelled(signal);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new JobCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Wait for some time, stopping early with a JobCancelledError when the signal aborts
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+};
+
+export const createJobControl = (): JobControl => {
+  const controller = new AbortController();
+  let paused = false;
+  let resumeWaiters: Array<() => void> = [];
+
+  const releaseWaiters = () => {
+    resumeWaiters.forEach(release => release());
+    resumeWaiters = [];
+  };
+
+  return {
+    signal: controller.signal,
+    isPaused: () => paused,
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      releaseWaiters();
+    },
+    cancel: () => {
+      paused = false;
+      controller.abort();
+      releaseWaiters();
+    },
+    waitWhilePaused: async () => {
+      while (paused) {
+        await new Promise<void>(resolve => resumeWaiters.push(resolve));
+      }
+      throwIfCancelled(controller.signal);
+    }
+  };
+};
@@ -0,0 +1,113 @@
+/**
+ * Checkpoints of extraction jobs in IndexedDB, so a job interrupted by a crash, a closed tab
+ * or a reload can go on without sending its finished chunks again
+ */
+import { ChunkCheckpoint } from './chunkProcessor';
+import { InlineCodeMode } from './segmentMarkup';
+import { ProviderId } from './llmProvider';
+import { TmxData, TranslationUnit } from './tmxParser';
+import { runStoreRequest } from './indexedDb';
+import { hashText } from './hashing';
+
+const JOB_STORE = 'jobs';
+// The translation units of a job are stored once, apart from the checkpoint saved after every chunk
+const INPUT_STORE = 'jobInputs';
+
+/**
+ * Settings a job was started with. The API key is never stored.
+ */
+export interface ExtractionJobSettings {
+  providerId: ProviderId;
+  modelName: string;
+  datasetInfo: string;
+  inlineCodeMode: InlineCodeMode;
+  includeMetadata: boolean;
+  maxTokensPerChunk: number;
+}
+
+export interface ExtractionJob {
+  // Fingerprint of the input and the settings that shape the prompts, see fingerprintJob
+  id: string;
+  sourceFile?: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  settings: ExtractionJobSettings;
+  totalUnits: number;
+  chunks: ChunkCheckpoint[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ExtractionJobInput {
+  id: string;
+  units: TranslationUnit[];
+}
+
+/**
+ * Identify a job by its units, the model and the settings that change its prompts, so the same
+ * extraction started again finds its checkpoint. Terms of another model are never reused.
+ */
+export const fingerprintJob = (
+  pairData: TmxData,
+  settings: Pick<ExtractionJobSettings, 'providerId' | 'modelName' | 'datasetInfo' | 'inlineCodeMode' | 'includeMetadata'>
+): Promise<string> => {
+  return hashText(JSON.stringify({
+    sourceLanguage: pairData.sourceLanguage,
+    targetLanguage: pairData.targetLanguage,
+    settings: [
+      settings.providerId,
+      settings.modelName,
+      settings.datasetInfo,
+      settings.inlineCodeMode,
+      settings.includeMetadata
+    ],
+    units: pairData.translationUnits.map(unit => [unit.source, unit.target, unit.metadata?.tuid])
+  }));
+};
+
+/**
+ * Whether every unit is in a chunk and every chunk has given its terms. Chunks are cut as the
+ * job goes, so the units after the last chunk still have to be sent.
+ */
+export const isJobFinished = (job: ExtractionJob): boolean => {
+  return job.chunks.length > 0 &&
+    job.chunks[job.chunks.length - 1].end === job.totalUnits &&
+    job.chunks.every(chunk => chunk.state === 'done');
+};
+
+export const countDoneUnits = (job: ExtractionJob): number => {
+  return job.chunks
+    .filter(chunk => chunk.state === 'done')
+    .reduce((sum, chunk) => sum + chunk.end - chunk.start, 0);
+};
+
+export const findJob = (id: string): Promise<ExtractionJob | undefined> => {
+  return runStoreRequest<ExtractionJob | undefined>(JOB_STORE, 'readonly', store => store.get(id));
+};
+
+/**
+ * Saved jobs, most recently updated first
+ */
+export const listJobs = async (): Promise<ExtractionJob[]> => {
+  const jobs = await runStoreRequest<ExtractionJob[]>(JOB_STORE, 'readonly', store => store.getAll());
+  return jobs.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const saveJob = async (job: ExtractionJob): Promise<void> => {
+  await runStoreRequest(JOB_STORE, 'readwrite', store => store.put({ ...job, updatedAt: new Date().toISOString() }));
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+  await runStoreRequest(JOB_STORE, 'readwrite', store => store.delete(id));
+  await runStoreRequest(INPUT_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const saveJobInput = async (id: string, units: TranslationUnit[]): Promise<void> => {
+  const input: ExtractionJobInput = { id, units };
+  await runStoreRequest(INPUT_STORE, 'readwrite', store => store.put(input));
+};
+
+export const loadJobInput = async (id: string): Promise<TranslationUnit[] | undefined> => {
+  const input = await runStoreRequest<ExtractionJobInput | undefined>(INPUT_STORE, 'readonly', store => store.get(id));
+  return input?.units;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsonResourcePair } from './jsonResourceParser';
+
+const makeFile = (content: unknown, name: string) => new File([JSON.stringify(content)], name);
+
+const align = (source: unknown, target: unknown) => parseJsonResourcePair(
+  makeFile(source, 'en.json'),
+  makeFile(target, 'de.json'),
+  'en',
+  'de_DE'
+);
+
+describe('parseJsonResourcePair', () => {
+  it.each([
+    [
+      'flat keys',
+      { save: "Save", open: "Open" },
+      { open: "Öffnen", save: "Speichern" },
+      [['save', 'Save', 'Speichern'], ['open', 'Open', 'Öffnen']]
+    ],
+    [
+      'nested keys as key paths',
+      { settings: { profile: { title: "Profile" } } },
+      { settings: { profile: { title: "Profil" } } },
+      [['settings.profile.title', 'Profile', 'Profil']]
+    ],
+    [
+      'only keys both files share',
+      { save: "Save", print: "Print" },
+      { save: "Speichern", close: "Schließen" },
+      [['save', 'Save', 'Speichern']]
+    ],
+    [
+      'no empty strings or non-string values',
+      { save: "Save", empty: "", count: 3, enabled: true },
+      { save: "Speichern", empty: "", count: 3, enabled: true },
+      [['save', 'Save', 'Speichern']]
+    ]
+  ])('aligns %s', async (_, source, target, units) => {
+    const data = await align(source, target);
+
+    expect(data.translationUnits.map(unit => [unit.metadata?.tuid, unit.source, unit.target])).toEqual(units);
+  });
+
+  it('keeps ARB descriptions as notes and skips @@ keys', async () => {
+    const data = await align(
+      { "@@locale": "en", title: "Inbox", "@title": { description: "Heading of the mail list" }, menu: { open: "Open", "@open": { description: "Menu item" } } },
+      { "@@locale": "de", title: "Posteingang", menu: { open: "Öffnen" } }
+    );
+
+    expect(data.translationUnits.map(unit => [unit.metadata?.tuid, unit.metadata?.notes])).toEqual([
+      ['title', ['Heading of the mail list']],
+      ['menu.open', ['Menu item']]
+    ]);
+  });
+
+  it('normalises the language codes and records the target file', async () => {
+    const data = await align({ save: "Save" }, { save: "Speichern" });
+
+    expect([data.sourceLanguage, data.targetLanguage]).toEqual(['en', 'de-DE']);
+    expect(data.translationUnits[0].metadata?.props).toEqual([{ type: 'file', value: 'de.json' }]);
+  });
+
+  it('rejects files without shared keys with its own reason', async () => {
+    await expect(align({ save: "Save" }, { open: "Öffnen" })).rejects.toThrow("No keys are shared by the two resource files");
+  });
+
+  it('rejects invalid JSON with the generic hint', async () => {
+    const broken = parseJsonResourcePair(new File(['{ "save": '], 'en.json'), makeFile({ save: "Speichern" }, 'de.json'), 'en', 'de');
+
+    await expect(broken).rejects.toThrow(/^Failed to align resource files\. Please ensure/);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Utility functions for aligning a pair of JSON i18n resource files (e.g. en.json and de.json)
+ */
+import { MultilingualUnit, TmxData, buildTmxData } from './tmxParser';
+import { createTextSegment } from './segmentMarkup';
+import { readFileText } from './encoding';
+import { normalizeLanguageTag } from './languageCodes';
+import { FileContentError } from './fileParser';
+
+/**
+ * Flatten nested resource objects into key paths such as "settings.profile.title".
+ * ARB-style keys ("@key" descriptions, "@@locale") are returned separately as descriptions.
+ */
+const flattenResource = (
+  value: unknown,
+  prefix: string,
+  strings: Map<string, string>,
+  descriptions: Map<string, string>
+) => {
+  if (typeof value === 'string') {
+    if (prefix) strings.set(prefix, value);
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+    if (key.startsWith('@@')) return;
+    if (key.startsWith('@')) {
+      const description = (child as { description?: unknown } | null)?.description;
+      if (typeof description === 'string') {
+        descriptions.set(prefix ? `${prefix}.${key.slice(1)}` : key.slice(1), description);
+      }
+      return;
+    }
+    flattenResource(child, prefix ? `${prefix}.${key}` : key, strings, descriptions);
+  });
+};
+
+const readResourceFile = async (file: File, encoding?: string) => {
+  const content = await readFileText(file, encoding);
+  const strings = new Map<string, string>();
+  const descriptions = new Map<string, string>();
+  flattenResource(JSON.parse(content), "", strings, descriptions);
+  console.log(`Resource file ${file.name}: ${strings.size} strings`);
+  return { strings, descriptions };
+};
+
+/**
+ * Parse a source and a target resource file into the same structure as a TMX file,
+ * aligning entries by key path
+ */
+export const parseJsonResourcePair = async (
+  sourceFile: File,
+  targetFile: File,
+  sourceLanguageCode: string,
+  targetLanguageCode: string,
+  encoding?: string
+): Promise<TmxData> => {
+  try {
+    const sourceLanguage = normalizeLanguageTag(sourceLanguageCode);
+    const targetLanguage = normalizeLanguageTag(targetLanguageCode);
+    if (!sourceLanguage || !targetLanguage) {
+      throw new FileContentError("Source and target language codes are required");
+    }
+
+    const source = await readResourceFile(sourceFile, encoding);
+    const target = await readResourceFile(targetFile, encoding);
+    const multilingualUnits: MultilingualUnit[] = [];
+    let missingKeys = 0;
+
+    source.strings.forEach((sourceText, key) => {
+      const targetText = target.strings.get(key);
+      if (targetText === undefined) {
+        missingKeys++;
+        return;
+      }
+      if (!sourceText.trim() || !targetText.trim()) return;
+
+      const description = source.descriptions.get(key) || target.descriptions.get(key);
+      multilingualUnits.push({
+        segments: { [sourceLanguage]: sourceText, [targetLanguage]: targetText },
+        taggedSegments: {
+          [sourceLanguage]: createTextSegment(sourceText),
+          [targetLanguage]: createTextSegment(targetText)
+        },
+        metadata: {
+          tuid: key,
+          props: [{ type: 'file', value: targetFile.name }],
+          notes: description ? [description] : []
+        }
+      });
+    });
+
+    if (missingKeys > 0) {
+      console.warn(`${missingKeys} keys from ${sourceFile.name} have no translation in ${targetFile.name}`);
+    }
+
+    if (multilingualUnits.length === 0) {
+      throw new FileContentError("No keys are shared by the two resource files");
+    }
+
+    console.log("Resource pair aligned successfully:", {
+      sourceLanguage,
+      targetLanguage,
+      translationUnits: multilingualUnits.length
+    });
+
+    return buildTmxData(sourceLanguage, [targetLanguage], multilingualUnits);
+  } catch (error) {
+    console.error('Error parsing resource files:', error);
+    if (error instanceof FileContentError) throw error;
+    throw new Error('Failed to align resource files. Please ensure both are valid JSON resource files, or choose their encoding manually if the text is garbled.');
+  }
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { describeLanguage, groupLanguageTag, guessLanguageFromFileName, isLanguageCode, isSameLanguage, normalizeLanguageTag } from './languageCodes';
+
+describe('normalizeLanguageTag', () => {
+  it.each([
+    ['de', 'de'],
+    ['EN_us', 'en-US'],
+    ['en-gb', 'en-GB'],
+    ['zh-hant-tw', 'zh-Hant-TW'],
+    ['sr_latn', 'sr-Latn'],
+    ['iw', 'he'],
+    ['  fr-CA ', 'fr-CA'],
+    ['', ''],
+    ['x_Not_A_Tag', 'x-not-a-tag']
+  ])('turns "%s" into "%s"', (tag, normalized) => {
+    expect(normalizeLanguageTag(tag)).toBe(normalized);
+  });
+});
+
+describe('language matching', () => {
+  it.each([
+    ['en-US', 'en_GB', true],
+    ['pt-BR', 'PT', true],
+    ['zh-Hans', 'zh-Hant-TW', true],
+    ['no', 'nb', false],
+    ['de', 'nl', false]
+  ])('%s and %s name the same language: %s', (a, b, same) => {
+    expect(isSameLanguage(a, b)).toBe(same);
+  });
+
+  it.each([
+    ['en_us', 'variant', 'en-US'],
+    ['en_us', 'language', 'en'],
+    ['zh-hant-tw', 'language', 'zh']
+  ] as const)('groups %s by %s as %s', (tag, grouping, grouped) => {
+    expect(groupLanguageTag(tag, grouping)).toBe(grouped);
+  });
+});
+
+describe('language codes in file names and labels', () => {
+  it.each([
+    ['de.po', 'de'],
+    ['messages.de_DE.json', 'de-DE'],
+    ['locales/fr-CA.json', 'fr-CA'],
+    ['messages.json', '']
+  ])('finds the language of %s', (fileName, language) => {
+    expect(guessLanguageFromFileName(fileName)).toBe(language);
+  });
+
+  it.each([
+    ['pt_BR', true],
+    ['zh-Hant-TW', true],
+    ['Source', false],
+    ['en-', false]
+  ])('recognises %s as language code: %s', (value, isCode) => {
+    expect(isLanguageCode(value)).toBe(isCode);
+  });
+
+  it('names a language together with its tag', () => {
+    expect(describeLanguage('pt-BR')).toBe("Portuguese (Brazil) [pt-BR]");
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Helpers for working with language codes
+ */
+
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})*$/i;
+
+/**
+ * Whether a string looks like a language code such as "de", "pt_BR" or "zh-Hant-TW"
+ */
+export const isLanguageCode = (value: string): boolean => LANGUAGE_CODE_PATTERN.test(value);
+
+/**
+ * Guess a language code from a file name such as "de.po", "messages.de_DE.json" or "fr-CA.json"
+ */
+export const guessLanguageFromFileName = (fileName: string): string => {
+  const parts = fileName.replace(/\.[^.]+$/, '').split(/[./\\]/);
+  const candidate = parts[parts.length - 1];
+  return isLanguageCode(candidate) ? normalizeLanguageTag(candidate) : "";
+};
+
+/**
+ * How regional and script variants of a language are treated: as languages of their own
+ * (en-US and en-GB are separate targets) or grouped under their base language (both become en)
+ */
+export type LanguageGrouping = 'variant' | 'language';
+
+export const LANGUAGE_GROUPING_OPTIONS: Array<{ value: LanguageGrouping; label: string }> = [
+  { value: 'variant', label: "Keep regional variants separate" },
+  { value: 'language', label: "Group variants by language" }
+];
+
+/**
+ * Bring a BCP 47 language tag into its canonical form, e.g. "EN_us" becomes "en-US" and
+ * "zh-hant-tw" becomes "zh-Hant-TW". Deprecated codes are replaced ("iw" becomes "he").
+ * Tags the browser rejects are only trimmed, lowercased and given hyphens.
+ */
+export const normalizeLanguageTag = (tag: string): string => {
+  const hyphenated = tag.trim().replace(/_/g, '-');
+  if (!hyphenated) return "";
+  try {
+    return Intl.getCanonicalLocales(hyphenated)[0];
+  } catch {
+    return hyphenated.toLowerCase();
+  }
+};
+
+/**
+ * The primary language subtag of a tag, e.g. "pt" for "pt-BR"
+ */
+export const getBaseLanguage = (tag: string): string => normalizeLanguageTag(tag).split('-')[0];
+
+/**
+ * Whether two tags name the same language, ignoring region, script and variant subtags
+ */
+export const isSameLanguage = (a: string, b: string): boolean => getBaseLanguage(a) === getBaseLanguage(b);
+
+/**
+ * Apply a grouping to a tag: unchanged for "variant", the base language for "language"
+ */
+export const groupLanguageTag = (tag: string, grouping: LanguageGrouping): string => {
+  return grouping === 'language' ? getBaseLanguage(tag) : normalizeLanguageTag(tag);
+};
+
+let displayNames: Intl.DisplayNames | null = null;
+
+/**
+ * English name of a language tag, e.g. "Portuguese (Brazil)" for "pt-BR". Falls back to the tag itself.
+ */
+export const getLanguageName = (tag: string): string => {
+  try {
+    if (!displayNames) {
+      displayNames = new Intl.DisplayNames(['en'], { type: 'language', languageDisplay: 'standard' });
+    }
+    return displayNames.of(normalizeLanguageTag(tag)) || tag;
+  } catch {
+    return tag;
+  }
+};
+
+/**
+ * Name and tag of a language for display and prompts, e.g. "Portuguese (Brazil) [pt-BR]"
+ */
+export const describeLanguage = (tag: string): string => {
+  const name = getLanguageName(tag);
+  return name === tag ? tag : `${name} [${tag}]`;
+};
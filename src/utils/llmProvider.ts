@@ -0,0 +1,255 @@
+/**
+ * Common interface of the language model vendors terminology can be extracted with
+ */
+import { TerminologyPair } from './glossary';
+
+export type ProviderId = 'gemini' | 'openai' | 'local' | 'mock';
+
+/**
+ * Whether model calls go to the provider only, are also saved, or are answered from saved responses
+ */
+export type RecordingMode = 'off' | 'record' | 'replay';
+
+/**
+ * What the user entered to reach a provider
+ */
+export interface ProviderSettings {
+  providerId: ProviderId;
+  apiKey: string;
+  // Endpoint of an OpenAI-compatible service; the provider's default endpoint when empty
+  baseUrl?: string;
+  // Live calls when absent
+  recordingMode?: RecordingMode;
+}
+
+export interface LlmModel {
+  // Identifier sent to the API
+  name: string;
+  displayName: string;
+  description?: string;
+  // Most tokens a prompt and an answer may have, where the API tells
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+}
+
+/**
+ * Tokens a request was billed for, as reported with the answer
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Rate limit window of an API key, as far as the API reports it in response headers
+ */
+export interface QuotaInfo {
+  requestsLimit?: number;
+  requestsRemaining?: number;
+  tokensLimit?: number;
+  tokensRemaining?: number;
+}
+
+/**
+ * What a provider's health check learned about the key and model, without generating anything
+ */
+export interface ProviderHealth {
+  // How the check reached the API, e.g. "model metadata lookup"
+  method: string;
+  // The model as the API describes it, with its token limits where known
+  model?: LlmModel;
+  quota?: QuotaInfo;
+}
+
+/**
+ * The subset of JSON Schema used to constrain model answers. Providers translate it into
+ * their own schema format.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  label: string;
+  // Where users get an API key, shown next to the key field
+  apiKeyUrl?: string;
+  // Local servers usually run without a key
+  requiresApiKey: boolean;
+  // Keys shorter than this are rejected before any request is made
+  minApiKeyLength: number;
+  // Whether the user can point the provider at another endpoint, and the one used when they don't
+  supportsBaseUrl: boolean;
+  defaultBaseUrl?: string;
+  listModels: (settings: ProviderSettings) => Promise<LlmModel[]>;
+  // Send an extraction prompt and return the terminology pairs of the answer.
+  // An aborted signal rejects with a JobCancelledError. onUsage receives the tokens of every
+  // answer, cut-off ones included, where the API reports them.
+  extractTerms: (
+    settings: ProviderSettings,
+    modelName: string,
+    prompt: string,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ) => Promise<TerminologyPair[]>;
+  // Send a prompt and return its JSON answer, constrained by the schema where the API allows it
+  generateJson: (
+    settings: ProviderSettings,
+    modelName: string,
+    prompt: string,
+    schema: JsonSchema,
+    signal?: AbortSignal
+  ) => Promise<unknown>;
+  // Tokens of a prompt as the model counts them, or estimateTokens where the API cannot count
+  countTokens: (settings: ProviderSettings, modelName: string, text: string) => Promise<number>;
+  // Reach the API with a request that costs no generation, to check the key and the model.
+  // Failures are thrown as ApiErrors.
+  checkHealth: (settings: ProviderSettings, modelName: string) => Promise<ProviderHealth>;
+}
+
+// Room left for the answer when prompt and answer share one context window
+export const ANSWER_TOKEN_RESERVE = 4096;
+
+/**
+ * Token limits of a model whose context window holds both the prompt and the answer
+ */
+export const contextWindowLimits = (contextLength?: number): Pick<LlmModel, 'inputTokenLimit' | 'outputTokenLimit'> => {
+  if (!contextLength || contextLength <= ANSWER_TOKEN_RESERVE) return {};
+  return { inputTokenLimit: contextLength - ANSWER_TOKEN_RESERVE, outputTokenLimit: ANSWER_TOKEN_RESERVE };
+};
+
+// Sent ahead of every extraction prompt, as system instruction where the API has one
+export const TERMINOLOGY_SYSTEM_PROMPT =
+  "You are a terminology extraction expert. Extract bilingual terminology pairs from the translation memory data provided.";
+
+export const TERMINOLOGY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    terminologyPairs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          sourceTerm: { type: 'string', description: 'Term in the source language' },
+          targetTerm: { type: 'string', description: 'Term in the target language' }
+        },
+        required: ['sourceTerm', 'targetTerm']
+      }
+    }
+  },
+  required: ['terminologyPairs']
+};
+
+const isTermPair = (item: unknown): item is TerminologyPair => {
+  const candidate = item as TerminologyPair | null;
+  return Boolean(candidate) &&
+    typeof candidate.sourceTerm === 'string' &&
+    typeof candidate.targetTerm === 'string' &&
+    candidate.sourceTerm.trim() !== '' &&
+    candidate.targetTerm.trim() !== '';
+};
+
+/**
+ * Read the complete pairs of a JSON answer that was cut off or is otherwise broken. Every object
+ * that closes properly is parsed on its own, so only the pair being written when the answer
+ * stopped is lost.
+ */
+export const salvageTerminologyPairs = (textContent: string | undefined): TerminologyPair[] => {
+  if (!textContent) return [];
+
+  const pairs: TerminologyPair[] = [];
+  // Start offsets of the objects still open at the current position
+  const openObjects: number[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let index = 0; index < textContent.length; index++) {
+    const char = textContent[index];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      openObjects.push(index);
+    } else if (char === '}' && openObjects.length > 0) {
+      const start = openObjects.pop() as number;
+      try {
+        const item: unknown = JSON.parse(textContent.slice(start, index + 1));
+        if (isTermPair(item)) pairs.push({ sourceTerm: item.sourceTerm, targetTerm: item.targetTerm });
+      } catch {
+        // Not a complete pair, e.g. the answer's wrapper object
+      }
+    }
+  }
+
+  console.log("Salvaged", pairs.length, "complete terminology pairs from a broken answer");
+  return pairs;
+};
+
+/**
+ * Read the terminology pairs from a model's JSON answer. Pairs found in another array of the
+ * answer are accepted too, since not every model keeps to the schema.
+ */
+export const parseTerminologyResponse = (textContent: string | undefined): TerminologyPair[] => {
+  if (!textContent) {
+    console.warn("Empty response, no terminology pairs");
+    return [];
+  }
+
+  let parsedData: unknown;
+  try {
+    parsedData = JSON.parse(textContent);
+  } catch (parseError) {
+    console.error("Error parsing JSON response:", parseError);
+    return salvageTerminologyPairs(textContent);
+  }
+  if (!parsedData || typeof parsedData !== 'object') return [];
+
+  const { terminologyPairs } = parsedData as { terminologyPairs?: unknown };
+  const candidates = Array.isArray(terminologyPairs)
+    ? terminologyPairs
+    : Object.values(parsedData).filter(Array.isArray).flat();
+  if (!Array.isArray(terminologyPairs)) {
+    console.warn("Response doesn't contain terminologyPairs array:", parsedData);
+  }
+
+  const validTerms = candidates
+    .filter(isTermPair)
+    .map(item => ({ sourceTerm: item.sourceTerm, targetTerm: item.targetTerm }));
+  console.log("Successfully extracted", validTerms.length, "valid terminology pairs");
+  return validTerms;
+};
+
+// Scripts written without spaces between words, where tokenizers need about one token per character
+const DENSE_SCRIPT_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+// Latin script, digits and ASCII punctuation end here
+const LAST_LATIN_CODE_POINT = 0x024f;
+
+/**
+ * Offline token count for text, for providers that cannot count and as a first guess for those that can.
+ * Latin text takes about 4 characters per token, other alphabets (Cyrillic, Greek, Arabic, Hebrew,
+ * Indic scripts) about 2, and Chinese, Japanese, Korean and Thai about one token per character.
+ */
+export const estimateTokens = (text: string): number => {
+  let latinChars = 0;
+  let alphabetChars = 0;
+  let denseChars = 0;
+  for (const char of text) {
+    if ((char.codePointAt(0) as number) <= LAST_LATIN_CODE_POINT) {
+      latinChars++;
+    } else if (DENSE_SCRIPT_PATTERN.test(char)) {
+      denseChars++;
+    } else {
+      alphabetChars++;
+    }
+  }
+  return Math.ceil(latinChars / 4 + alphabetChars / 2 + denseChars);
+};
@@ -0,0 +1,144 @@
+/**
+ * Utilities for models served on the user's own machine or network through an OpenAI-compatible
+ * endpoint (Ollama, llama.cpp server, vLLM), so translation memories never reach a cloud API
+ */
+import {
+  JsonSchema,
+  LlmModel,
+  LlmProvider,
+  ProviderHealth,
+  ProviderSettings,
+  TERMINOLOGY_SCHEMA,
+  TERMINOLOGY_SYSTEM_PROMPT,
+  TokenUsage,
+  contextWindowLimits,
+  estimateTokens,
+  parseTerminologyResponse
+} from './llmProvider';
+import { completeJson } from './openAiApi';
+import { ApiError, classifyStatus } from './apiErrors';
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp and vLLM serve theirs on port 8080 and 8000 by default
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+const withBaseUrl = (settings: ProviderSettings): ProviderSettings => ({
+  ...settings,
+  baseUrl: (settings.baseUrl || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, '')
+});
+
+// How the servers report the context window in their model list: vLLM, llama.cpp, and gateways such as LiteLLM
+interface LocalModelEntry {
+  id: string;
+  max_model_len?: number;
+  meta?: { n_ctx_train?: number };
+  context_length?: number;
+}
+
+const authHeaders = (settings: ProviderSettings): Record<string, string> => {
+  return settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+};
+
+/**
+ * List the models the server has loaded. The OpenAI-compatible /models route is asked first;
+ * older Ollama versions only list their models through /api/tags.
+ */
+const listLocalModels = async (settings: ProviderSettings): Promise<LlmModel[]> => {
+  const { baseUrl } = withBaseUrl(settings);
+  console.log("Fetching available models from", baseUrl);
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/models`, { headers: authHeaders(settings) });
+  } catch (error) {
+    console.error("Local server not reachable:", error);
+    throw new ApiError('network', `Cannot reach ${baseUrl}. Check that the server is running and allows requests from this page (for Ollama, set OLLAMA_ORIGINS).`);
+  }
+
+  if (response.ok) {
+    const data = await response.json();
+    const models: LlmModel[] = (data.data || []).map((model: LocalModelEntry) => ({
+      name: model.id,
+      displayName: model.id,
+      ...contextWindowLimits(model.max_model_len || model.meta?.n_ctx_train || model.context_length)
+    }));
+    console.log(`Found ${models.length} models on the local server`);
+    return models;
+  }
+
+  const tagsResponse = await fetch(`${baseUrl.replace(/\/v1$/, '')}/api/tags`).catch(() => null);
+  if (tagsResponse?.ok) {
+    const data = await tagsResponse.json();
+    const models: LlmModel[] = (data.models || []).map((model: { name: string }) => ({
+      name: model.name,
+      displayName: model.name
+    }));
+    console.log(`Found ${models.length} Ollama models`);
+    return models;
+  }
+
+  const message = `The server at ${baseUrl} did not list any models (status ${response.status})`;
+  throw new ApiError(classifyStatus(response.status, message), message, { status: response.status });
+};
+
+/**
+ * Check that the server is up and has the model loaded. Local servers have no rate limits to report.
+ */
+const checkLocalHealth = async (settings: ProviderSettings, modelName: string): Promise<ProviderHealth> => {
+  const model = (await listLocalModels(settings)).find(candidate => candidate.name === modelName);
+  if (!model) {
+    throw new ApiError('invalid-model', `The server at ${withBaseUrl(settings).baseUrl} has no model "${modelName}"`);
+  }
+  return { method: "model list lookup", model };
+};
+
+/**
+ * Extract terminology pairs with a local model. The server constrains the answer to the
+ * terminology schema (Ollama structured outputs, llama.cpp grammars, vLLM guided decoding).
+ */
+export const callLocalModelApi = async (
+  settings: ProviderSettings,
+  modelName: string,
+  prompt: string,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+) => {
+  console.log("Sending request to local model:", modelName);
+  const textContent = await completeJson(withBaseUrl(settings), modelName, [
+    { role: 'system', content: TERMINOLOGY_SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ], TERMINOLOGY_SCHEMA, 0.2, signal, onUsage);
+  console.log("Received response from local model");
+  return parseTerminologyResponse(textContent);
+};
+
+/**
+ * Send a prompt to a local model and parse its JSON answer. Failures are thrown.
+ */
+export const callLocalModelJson = async (
+  settings: ProviderSettings,
+  modelName: string,
+  prompt: string,
+  schema: JsonSchema,
+  signal?: AbortSignal
+): Promise<unknown> => {
+  const textContent = await completeJson(withBaseUrl(settings), modelName, [{ role: 'user', content: prompt }], schema, 0, signal);
+  if (!textContent) {
+    throw new Error("Empty response from local model");
+  }
+  return JSON.parse(textContent);
+};
+
+export const localProvider: LlmProvider = {
+  id: 'local',
+  label: "Local model (Ollama, llama.cpp, vLLM)",
+  requiresApiKey: false,
+  minApiKeyLength: 0,
+  supportsBaseUrl: true,
+  defaultBaseUrl: DEFAULT_LOCAL_BASE_URL,
+  listModels: listLocalModels,
+  extractTerms: callLocalModelApi,
+  generateJson: callLocalModelJson,
+  // The servers disagree on how tokens are counted, if they offer it at all
+  countTokens: async (_settings, _modelName, text) => estimateTokens(text),
+  checkHealth: checkLocalHealth
+};
@@ -0,0 +1,154 @@
+/**
+ * A provider that answers without any model, so the extraction pipeline can be demonstrated,
+ * debugged and tested offline. Answers are deterministic: the same prompt always gives the same result.
+ */
+import { TerminologyPair } from './glossary';
+import { JsonSchema, LlmModel, LlmProvider, ProviderSettings, TokenUsage, estimateTokens } from './llmProvider';
+import { throwIfCancelled } from './jobControl';
+
+/**
+ * Fixed answers for the mock provider, e.g. from a test. Without a script the answers are guessed from the prompt.
+ */
+export interface MockScript {
+  extractTerms?: (prompt: string) => TerminologyPair[];
+  generateJson?: (prompt: string, schema: JsonSchema) => unknown;
+}
+
+// Segments this short are taken as terms by the heuristic
+const MAX_SOURCE_TERM_WORDS = 4;
+const MAX_TARGET_TERM_WORDS = 6;
+
+const MOCK_MODELS: LlmModel[] = [
+  {
+    name: 'mock-heuristic',
+    displayName: "Mock (short segments as terms)",
+    description: "Pairs up short source and target segments of the prompt; no model is called"
+  }
+];
+
+let mockScript: MockScript | null = null;
+
+/**
+ * Make the mock provider give fixed answers, or go back to its heuristic with null
+ */
+export const setMockScript = (script: MockScript | null) => {
+  mockScript = script;
+};
+
+const wordCount = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+const trimTerm = (text: string): string => text.trim().replace(/[.:;!?]+$/, '').trim();
+
+/**
+ * Read the translation units back out of an extraction prompt
+ */
+const readPromptSamples = (prompt: string): Array<{ source: string; target: string }> => {
+  // The units are pretty-printed, so the array ends at the first bracket at the start of a line
+  const match = prompt.match(/Translation Memory Data \(\d+ translation units\):\n(\[[\s\S]*?\n\])/);
+  if (!match) return [];
+  try {
+    const samples: unknown = JSON.parse(match[1]);
+    return Array.isArray(samples)
+      ? samples.filter(sample => typeof sample?.source === 'string' && typeof sample?.target === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Take short segments as terms, the way UI strings and glossary-like entries of a memory usually are
+ */
+const guessTerms = (prompt: string): TerminologyPair[] => {
+  const seen = new Set<string>();
+  const pairs: TerminologyPair[] = [];
+  readPromptSamples(prompt).forEach(sample => {
+    const sourceTerm = trimTerm(sample.source);
+    const targetTerm = trimTerm(sample.target);
+    if (!sourceTerm || !targetTerm) return;
+    if (wordCount(sourceTerm) > MAX_SOURCE_TERM_WORDS || wordCount(targetTerm) > MAX_TARGET_TERM_WORDS) return;
+
+    const key = `${sourceTerm.toLowerCase()}\u0000${targetTerm.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    pairs.push({ sourceTerm, targetTerm });
+  });
+  return pairs;
+};
+
+const countNumberedLines = (prompt: string, heading: string): number => {
+  const section = prompt.split(`${heading}\n`)[1];
+  if (!section) return 0;
+  const lines = section.split('\n');
+  let count = 0;
+  while (count < lines.length && lines[count].startsWith(`${count + 1}. `)) count++;
+  return count;
+};
+
+/**
+ * The smallest answer that fits the schema: empty arrays and strings, zero and false
+ */
+const emptyAnswer = (schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, emptyAnswer(value)])
+      );
+    case 'array':
+      return [];
+    case 'string':
+      return '';
+    case 'boolean':
+      return false;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Answer JSON prompts. Sentence alignment prompts get a one-to-one alignment in document
+ * order; anything else an empty answer of the right shape.
+ */
+const guessJson = (prompt: string, schema: JsonSchema): unknown => {
+  const sourceCount = countNumberedLines(prompt, 'Source sentences:');
+  const targetCount = countNumberedLines(prompt, 'Target sentences:');
+  if (sourceCount + targetCount > 0 && schema.properties?.pairs) {
+    const pairs = Array.from({ length: Math.max(sourceCount, targetCount) }, (_, index) => ({
+      source: index < sourceCount ? [index + 1] : [],
+      target: index < targetCount ? [index + 1] : []
+    }));
+    return { pairs };
+  }
+  return emptyAnswer(schema);
+};
+
+export const mockProvider: LlmProvider = {
+  id: 'mock',
+  label: "Mock (offline, no model)",
+  requiresApiKey: false,
+  minApiKeyLength: 0,
+  supportsBaseUrl: false,
+  listModels: async () => MOCK_MODELS,
+  extractTerms: async (
+    _settings: ProviderSettings,
+    _modelName: string,
+    prompt: string,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ) => {
+    throwIfCancelled(signal);
+    const pairs = mockScript?.extractTerms ? mockScript.extractTerms(prompt) : guessTerms(prompt);
+    // Estimated like a real answer would be, so token accounting can be tried offline
+    onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(JSON.stringify({ terminologyPairs: pairs })) });
+    return pairs;
+  },
+  generateJson: async (_settings: ProviderSettings, _modelName: string, prompt: string, schema: JsonSchema, signal?: AbortSignal) => {
+    throwIfCancelled(signal);
+    return mockScript?.generateJson ? mockScript.generateJson(prompt, schema) : guessJson(prompt, schema);
+  },
+  countTokens: async (_settings, _modelName, text) => estimateTokens(text),
+  checkHealth: async (_settings, modelName) => ({
+    method: "offline, no request",
+    model: MOCK_MODELS.find(model => model.name === modelName)
+  })
+};
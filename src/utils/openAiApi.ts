@@ -0,0 +1,216 @@
+/**
+ * Utilities for interacting with OpenAI and OpenAI-compatible chat completion APIs
+ */
+import OpenAI from "openai";
+import {
+  JsonSchema,
+  LlmModel,
+  LlmProvider,
+  ProviderHealth,
+  ProviderSettings,
+  QuotaInfo,
+  TERMINOLOGY_SCHEMA,
+  TERMINOLOGY_SYSTEM_PROMPT,
+  TokenUsage,
+  contextWindowLimits,
+  estimateTokens,
+  parseTerminologyResponse
+} from './llmProvider';
+import { ApiError, classifyStatus, parseRetryAfter, toApiError } from './apiErrors';
+import { JobCancelledError } from './jobControl';
+
+// Models of the OpenAI catalogue that cannot answer chat completions
+const NON_CHAT_MODEL_PATTERN = /embedding|whisper|tts|dall-e|moderation|transcribe|realtime|audio|image|davinci|babbage/i;
+
+const createClient = (settings: ProviderSettings): OpenAI => {
+  return new OpenAI({
+    // Local servers accept any key, but the SDK refuses to start without one
+    apiKey: settings.apiKey || "none",
+    baseURL: settings.baseUrl || undefined,
+    // The key is the user's own and never leaves their browser except to the API
+    dangerouslyAllowBrowser: true,
+    // Retries are left to the chunk processor, which knows whether the job should go on
+    maxRetries: 0
+  });
+};
+
+/**
+ * Classify an error of the SDK, which carries the HTTP status, headers and error code
+ */
+const toOpenAiApiError = (error: unknown): ApiError => {
+  if (!(error instanceof OpenAI.APIError)) return toApiError(error);
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new ApiError('network', error.message);
+  }
+
+  const headers = (error.headers || {}) as Record<string, string | null | undefined>;
+  const retryAfterMs = headers['retry-after-ms']
+    ? parseInt(headers['retry-after-ms'] as string)
+    : parseRetryAfter(headers['retry-after']);
+  return new ApiError(classifyStatus(error.status, `${error.message} ${error.code || ''}`), error.message, {
+    status: error.status,
+    retryAfterMs: isNaN(retryAfterMs as number) ? undefined : retryAfterMs
+  });
+};
+
+/**
+ * List the chat models of the endpoint
+ */
+const listOpenAiModels = async (settings: ProviderSettings): Promise<LlmModel[]> => {
+  console.log("Fetching available models from", settings.baseUrl || "OpenAI");
+  const models: LlmModel[] = [];
+  try {
+    for await (const model of createClient(settings).models.list()) {
+      if (NON_CHAT_MODEL_PATTERN.test(model.id)) continue;
+      // OpenRouter and similar gateways tell the context window, OpenAI itself does not
+      const contextLength = (model as { context_length?: number }).context_length;
+      models.push({ name: model.id, displayName: model.id, ...contextWindowLimits(contextLength) });
+    }
+  } catch (error) {
+    throw toOpenAiApiError(error);
+  }
+  console.log(`Found ${models.length} chat models`);
+  return models.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const readHeaderNumber = (headers: Headers, name: string): number | undefined => {
+  const value = parseInt(headers.get(name) ?? '');
+  return isNaN(value) ? undefined : value;
+};
+
+/**
+ * The rate limit headers OpenAI sends, or nothing for endpoints that send none
+ */
+const readQuotaHeaders = (headers: Headers): QuotaInfo | undefined => {
+  const quota: QuotaInfo = {
+    requestsLimit: readHeaderNumber(headers, 'x-ratelimit-limit-requests'),
+    requestsRemaining: readHeaderNumber(headers, 'x-ratelimit-remaining-requests'),
+    tokensLimit: readHeaderNumber(headers, 'x-ratelimit-limit-tokens'),
+    tokensRemaining: readHeaderNumber(headers, 'x-ratelimit-remaining-tokens')
+  };
+  return Object.values(quota).some(value => value !== undefined) ? quota : undefined;
+};
+
+/**
+ * Look the model up in the endpoint's model catalogue, which checks the key and the model
+ * without generating anything. Gateways that cannot retrieve a single model are asked for the list.
+ */
+const checkOpenAiHealth = async (settings: ProviderSettings, modelName: string): Promise<ProviderHealth> => {
+  try {
+    const { data, response } = await createClient(settings).models.retrieve(modelName).withResponse();
+    const contextLength = (data as { context_length?: number }).context_length;
+    return {
+      method: "model lookup",
+      model: { name: data.id, displayName: data.id, ...contextWindowLimits(contextLength) },
+      quota: readQuotaHeaders(response.headers)
+    };
+  } catch (error) {
+    const apiError = toOpenAiApiError(error);
+    if (apiError.kind !== 'invalid-model') throw apiError;
+  }
+
+  const model = (await listOpenAiModels(settings)).find(candidate => candidate.name === modelName);
+  if (!model) {
+    throw new ApiError('invalid-model', `The endpoint does not offer the model "${modelName}"`);
+  }
+  return { method: "model list lookup", model };
+};
+
+/**
+ * Send a system and user message and return the text of the answer, asking for JSON that follows the schema.
+ * Failed requests, refusals and cut-off answers are thrown as ApiErrors.
+ */
+export const completeJson = async (
+  settings: ProviderSettings,
+  modelName: string,
+  messages: OpenAI.Chat.ChatCompletionMessageParam[],
+  schema: JsonSchema,
+  temperature: number,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string | undefined> => {
+  let completion: OpenAI.Chat.ChatCompletion;
+  try {
+    completion = await createClient(settings).chat.completions.create({
+      model: modelName,
+      messages,
+      temperature,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: schema as unknown as Record<string, unknown>, strict: false }
+      }
+    }, { signal });
+  } catch (error) {
+    if (signal?.aborted) throw new JobCancelledError();
+    throw toOpenAiApiError(error);
+  }
+
+  // Refused and cut-off answers are billed too
+  if (completion.usage && onUsage) {
+    onUsage({ inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens });
+  }
+
+  const choice = completion.choices[0];
+  if (choice?.finish_reason === 'length') {
+    throw new ApiError('truncation', "The answer was cut off at the output token limit", {
+      partialText: choice.message?.content ?? undefined
+    });
+  }
+  if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+    throw new ApiError('safety', choice.message?.refusal || "The answer was withheld by the content filter");
+  }
+  return choice?.message?.content ?? undefined;
+};
+
+/**
+ * Call a chat completion API to extract terminology pairs with structured output.
+ * An answer that cannot be read gives an empty list; failed requests are thrown.
+ */
+export const callOpenAiApi = async (
+  settings: ProviderSettings,
+  modelName: string,
+  prompt: string,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+) => {
+  console.log("Sending request to chat completion API with model:", modelName);
+  const textContent = await completeJson(settings, modelName, [
+    { role: 'system', content: TERMINOLOGY_SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ], TERMINOLOGY_SCHEMA, 0.2, signal, onUsage);
+  console.log("Received response from chat completion API");
+  return parseTerminologyResponse(textContent);
+};
+
+/**
+ * Send a prompt and parse its JSON answer. Failures are thrown.
+ */
+export const callOpenAiJson = async (
+  settings: ProviderSettings,
+  modelName: string,
+  prompt: string,
+  schema: JsonSchema,
+  signal?: AbortSignal
+): Promise<unknown> => {
+  const textContent = await completeJson(settings, modelName, [{ role: 'user', content: prompt }], schema, 0, signal);
+  if (!textContent) {
+    throw new Error("Empty response from chat completion API");
+  }
+  return JSON.parse(textContent);
+};
+
+export const openAiProvider: LlmProvider = {
+  id: 'openai',
+  label: "OpenAI-compatible",
+  apiKeyUrl: "https://platform.openai.com/api-keys",
+  requiresApiKey: true,
+  minApiKeyLength: 1,
+  supportsBaseUrl: true,
+  defaultBaseUrl: "https://api.openai.com/v1",
+  listModels: listOpenAiModels,
+  extractTerms: callOpenAiApi,
+  generateJson: callOpenAiJson,
+  // Chat completion APIs have no token counting endpoint
+  countTokens: async (_settings, _modelName, text) => estimateTokens(text),
+  checkHealth: checkOpenAiHealth
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { parsePoFile } from './poParser';
+
+const HEADER = `msgid ""
+msgstr ""
+"Language: de\\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+`;
+
+const makeFile = (content: string, name = 'messages.po') => new File([content], name);
+
+describe('parsePoFile', () => {
+  it.each([
+    [
+      'the singular form of a plural entry',
+      `msgid "One file"\nmsgid_plural "%d files"\nmsgstr[0] "Eine Datei"\nmsgstr[1] "%d Dateien"`,
+      ['One file', 'Eine Datei']
+    ],
+    [
+      'strings continued over several lines',
+      `msgid ""\n"Save the "\n"file"\nmsgstr ""\n"Datei "\n"speichern"`,
+      ['Save the file', 'Datei speichern']
+    ],
+    [
+      'escaped quotes and line breaks',
+      `msgid "Say \\"hi\\"\\nthen leave"\nmsgstr "Sag \\"hallo\\"\\ndann geh"`,
+      ['Say "hi"\nthen leave', 'Sag "hallo"\ndann geh']
+    ]
+  ])('reads %s', async (_, entry, pair) => {
+    const data = await parsePoFile(makeFile(`${HEADER}\n${entry}\n`));
+
+    expect(data.translationUnits.map(unit => [unit.source, unit.target])).toEqual([pair]);
+  });
+
+  it('keeps fuzzy entries marked by state and their context, references and comments', async () => {
+    const content = `${HEADER}
+#. Toolbar button
+#: src/toolbar.c:12 src/menu.c:40
+#, fuzzy, c-format
+msgctxt "toolbar"
+msgid "Open"
+msgstr "Öffnen"
+
+msgid "Close"
+msgstr "Schließen"
+`;
+
+    const data = await parsePoFile(makeFile(content));
+
+    expect(data.translationUnits.map(unit => unit.metadata)).toEqual([
+      {
+        tuid: 'toolbar',
+        state: 'fuzzy',
+        props: [
+          { type: 'msgctxt', value: 'toolbar' },
+          { type: 'reference', value: 'src/toolbar.c:12' },
+          { type: 'reference', value: 'src/menu.c:40' }
+        ],
+        notes: ['Toolbar button']
+      },
+      { tuid: undefined, state: undefined, props: [], notes: [] }
+    ]);
+  });
+
+  it('leaves out untranslated and obsolete entries', async () => {
+    const content = `${HEADER}
+msgid "Save"
+msgstr "Speichern"
+
+msgid "Print"
+msgstr ""
+
+#~ msgid "Exit"
+#~ msgstr "Beenden"
+`;
+
+    const data = await parsePoFile(makeFile(content));
+
+    expect(data.translationUnits.map(unit => unit.source)).toEqual(['Save']);
+  });
+
+  it.each([
+    ['the header', HEADER, 'messages.po', ['en', 'de']],
+    ['the file name', '', 'pt_BR.po', ['en', 'pt-BR']],
+    ['an X-Source-Language header', `msgid ""\nmsgstr ""\n"Language: fr_CA\\n"\n"X-Source-Language: en_GB\\n"\n`, 'messages.po', ['en-GB', 'fr-CA']]
+  ])('takes the languages from %s', async (_, header, fileName, languages) => {
+    const data = await parsePoFile(makeFile(`${header}\nmsgid "Save"\nmsgstr "Speichern"\n`, fileName));
+
+    expect([data.sourceLanguage, data.targetLanguage]).toEqual(languages);
+  });
+
+  it.each([
+    ['no target language', `msgid "Save"\nmsgstr "Speichern"\n`, "Target language not found in PO header or file name"],
+    ['no translated entries', `${HEADER}\nmsgid "Save"\nmsgstr ""\n`, "No translated entries found in PO file"]
+  ])('rejects a file with %s', async (_, content, message) => {
+    await expect(parsePoFile(makeFile(content))).rejects.toThrow(message);
+  });
+});
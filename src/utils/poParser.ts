@@ -0,0 +1,181 @@
+/**
+ * Utility functions for parsing Gettext PO files
+ */
+import { MultilingualUnit, TmxData, TuProp, buildTmxData } from './tmxParser';
+import { createTextSegment } from './segmentMarkup';
+import { guessLanguageFromFileName, normalizeLanguageTag } from './languageCodes';
+import { readFileText } from './encoding';
+import { FileContentError } from './fileParser';
+
+// PO files do not record the source language; msgids are English by convention
+const DEFAULT_SOURCE_LANGUAGE = "en";
+
+interface PoEntry {
+  msgctxt?: string;
+  msgid: string;
+  msgstr: string;
+  references: string[];
+  flags: string[];
+  comments: string[];
+}
+
+const unescapePoString = (value: string): string => {
+  return value.replace(/\\(.)/g, (_, char: string) => {
+    switch (char) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      default: return char;
+    }
+  });
+};
+
+/**
+ * Split a PO file into entries. Obsolete (#~) entries and previous msgids (#|) are ignored;
+ * for plural entries only the singular form (msgstr[0]) is kept.
+ */
+const readPoEntries = (content: string): PoEntry[] => {
+  const entries: PoEntry[] = [];
+  let entry: PoEntry | null = null;
+  let field: string | null = null;
+  const values: Record<string, string> = {};
+
+  const flush = () => {
+    if (entry && 'msgid' in values) {
+      entry.msgctxt = values.msgctxt;
+      entry.msgid = values.msgid;
+      entry.msgstr = values.msgstr ?? values['msgstr[0]'] ?? "";
+      entries.push(entry);
+    }
+    entry = null;
+    field = null;
+    Object.keys(values).forEach(key => delete values[key]);
+  };
+
+  const currentEntry = (): PoEntry => {
+    if (!entry) entry = { msgid: "", msgstr: "", references: [], flags: [], comments: [] };
+    return entry;
+  };
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+
+    if (line === "") {
+      flush();
+      return;
+    }
+
+    if (line.startsWith('#~') || line.startsWith('#|')) return;
+
+    if (line.startsWith('#')) {
+      // A comment after a complete message starts the next entry
+      if (field) flush();
+      const current = currentEntry();
+      if (line.startsWith('#:')) {
+        current.references.push(...line.slice(2).trim().split(/\s+/).filter(Boolean));
+      } else if (line.startsWith('#,')) {
+        current.flags.push(...line.slice(2).split(',').map(flag => flag.trim()).filter(Boolean));
+      } else if (line.startsWith('#.') || line.startsWith('# ') || line === '#') {
+        const comment = line.slice(2).trim();
+        if (comment) current.comments.push(comment);
+      }
+      return;
+    }
+
+    const keywordMatch = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"$/);
+    if (keywordMatch) {
+      // A new msgctxt or msgid after a msgstr starts the next entry
+      if ((keywordMatch[1] === 'msgctxt' || keywordMatch[1] === 'msgid') && field?.startsWith('msgstr')) flush();
+      currentEntry();
+      field = keywordMatch[1];
+      values[field] = unescapePoString(keywordMatch[2]);
+      return;
+    }
+
+    const continuationMatch = line.match(/^"(.*)"$/);
+    if (continuationMatch && field) {
+      values[field] += unescapePoString(continuationMatch[1]);
+      return;
+    }
+
+    console.warn("Skipping unrecognised PO line:", line);
+  });
+
+  flush();
+  return entries;
+};
+
+/**
+ * Read the "Name: value" lines of the PO header entry
+ */
+const readPoHeader = (header: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  header.split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      fields[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  });
+  return fields;
+};
+
+/**
+ * Parse a PO file into the same structure as a TMX file, aligning each msgid with its msgstr
+ */
+export const parsePoFile = async (file: File, encoding?: string): Promise<TmxData> => {
+  try {
+    const content = await readFileText(file, encoding);
+    console.log("PO file content loaded, size:", content.length);
+
+    const entries = readPoEntries(content);
+    const headerEntry = entries.find(entry => entry.msgid === "" && !entry.msgctxt);
+    const header = headerEntry ? readPoHeader(headerEntry.msgstr) : {};
+
+    const sourceLanguage = normalizeLanguageTag(header['x-source-language'] || DEFAULT_SOURCE_LANGUAGE);
+    const targetLanguage = normalizeLanguageTag(header['language'] || guessLanguageFromFileName(file.name));
+    if (!targetLanguage) {
+      throw new FileContentError("Target language not found in PO header or file name");
+    }
+    console.log("PO languages:", sourceLanguage, "->", targetLanguage);
+
+    const multilingualUnits: MultilingualUnit[] = [];
+    entries.forEach(entry => {
+      if (entry === headerEntry || !entry.msgid.trim() || !entry.msgstr.trim()) return;
+
+      const props: TuProp[] = [];
+      if (entry.msgctxt) props.push({ type: 'msgctxt', value: entry.msgctxt });
+      entry.references.forEach(reference => props.push({ type: 'reference', value: reference }));
+
+      multilingualUnits.push({
+        segments: { [sourceLanguage]: entry.msgid, [targetLanguage]: entry.msgstr },
+        taggedSegments: {
+          [sourceLanguage]: createTextSegment(entry.msgid),
+          [targetLanguage]: createTextSegment(entry.msgstr)
+        },
+        metadata: {
+          tuid: entry.msgctxt || undefined,
+          // Fuzzy translations are kept but marked so they can be filtered out by state
+          state: entry.flags.includes('fuzzy') ? 'fuzzy' : undefined,
+          props,
+          notes: entry.comments
+        }
+      });
+    });
+
+    if (multilingualUnits.length === 0) {
+      throw new FileContentError("No translated entries found in PO file");
+    }
+
+    console.log("PO parsing completed successfully:", {
+      sourceLanguage,
+      targetLanguage,
+      translationUnits: multilingualUnits.length
+    });
+
+    return buildTmxData(sourceLanguage, [targetLanguage], multilingualUnits);
+  } catch (error) {
+    console.error('Error parsing PO file:', error);
+    if (error instanceof FileContentError) throw error;
+    throw new Error('Failed to parse PO file. Please ensure it is a valid Gettext PO file, or choose its encoding manually if the text is garbled.');
+  }
+};
@@ -1,16 +1,63 @@
-
 /**
  * Utilities for generating prompts for the Gemini API
  */
-import { TmxData } from './tmxParser';
+import { TmxData, TranslationUnit, TuMetadata } from './tmxParser';
+import { InlineCodeMode, renderSegmentText } from './segmentMarkup';
+import { describeLanguage } from './languageCodes';
+
+export interface PromptOptions {
+  // How inline codes inside segments are represented; defaults to stripping them
+  inlineCodeMode?: InlineCodeMode;
+  // Send TU props and notes along with each unit as extra context
+  includeMetadata?: boolean;
+}
+
+/**
+ * Summarise the props and notes of a translation unit in one line, e.g. "client: ACME; domain: Legal"
+ */
+const describeMetadata = (metadata?: TuMetadata): string => {
+  if (!metadata) return "";
+  const props = metadata.props.map(prop => (prop.type ? `${prop.type}: ${prop.value}` : prop.value));
+  const notes = metadata.notes.map(note => `note: ${note}`);
+  return [...props, ...notes].join('; ');
+};
+
+/**
+ * The entry of a translation unit in the prompt's JSON data. Only the text is sent: tagged
+ * segments are rendered according to the inline code mode.
+ */
+export const toPromptSample = (unit: TranslationUnit, options: PromptOptions = {}) => {
+  const { inlineCodeMode = 'strip', includeMetadata = false } = options;
+  const sample: { source: string; target: string; context?: string } = {
+    source: unit.sourceSegment ? renderSegmentText(unit.sourceSegment, inlineCodeMode) : unit.source,
+    target: unit.targetSegment ? renderSegmentText(unit.targetSegment, inlineCodeMode) : unit.target
+  };
+  const context = includeMetadata ? describeMetadata(unit.metadata) : "";
+  if (context) sample.context = context;
+  return sample;
+};
 
 /**
  * Generate a prompt for the Gemini API based on the TMX data and dataset info
  */
-export const generatePrompt = (tmxData: TmxData, datasetInfo: string): string => {
+export const generatePrompt = (tmxData: TmxData, datasetInfo: string, options: PromptOptions = {}): string => {
+  const { inlineCodeMode = 'strip' } = options;
+
   // Get the translation units (we no longer limit to 100 - chunk processor handles this)
-  const translationSamples = tmxData.translationUnits;
-  
+  const translationSamples = tmxData.translationUnits.map(unit => toPromptSample(unit, options));
+
+  const placeholderNote = inlineCodeMode === 'placeholder'
+    ? `
+Tokens such as {1}, {/1} and {2/} mark inline formatting codes. Use them to understand the segment structure, but never include them in the extracted terms.
+`
+    : '';
+
+  const contextNote = translationSamples.some(sample => sample.context)
+    ? `
+The "context" field of a unit lists metadata such as client, project, domain and translator notes. Use it to judge which terms are domain-specific, but never extract terms from it.
+`
+    : '';
+
   const prompt = `
 You are a terminology extraction expert. Extract bilingual terminology pairs from the following translation memory data.
 
@@ -18,13 +65,13 @@ Dataset Information:
 ${datasetInfo}
 
 Language Pair:
-Source Language: ${tmxData.sourceLanguage}
-Target Language: ${tmxData.targetLanguage}
+Source Language: ${describeLanguage(tmxData.sourceLanguage)}
+Target Language: ${describeLanguage(tmxData.targetLanguage)}
 
 Translation Memory Data (${translationSamples.length} translation units):
 ${JSON.stringify(translationSamples, null, 2)}
-
-Please analyze these translation units and extract bilingual terminology pairs. 
+${placeholderNote}${contextNote}
+Please analyze these translation units and extract bilingual terminology pairs.
 Focus on specialized terms, technical concepts, and domain-specific vocabulary.
 `;
   console.log("Generated prompt length:", prompt.length, "for", translationSamples.length, "units");
@@ -0,0 +1,58 @@
+/**
+ * Health checks of a provider and model, cached so every extraction can confirm its connection
+ * without sending another request
+ */
+import { ProviderHealth, ProviderSettings } from './llmProvider';
+import { resolveProvider } from './providerRegistry';
+import { toApiError } from './apiErrors';
+import { hashText } from './hashing';
+
+// A passed check is trusted this long before the API is asked again
+const HEALTH_CACHE_MS = 10 * 60 * 1000;
+
+export interface HealthCheckResult extends ProviderHealth {
+  // Round trip of the check request
+  latencyMs: number;
+  checkedAt: string;
+}
+
+// Checks by key, provider settings and model; failed checks are not kept
+const healthCache = new Map<string, Promise<HealthCheckResult>>();
+
+const healthCacheKey = async (settings: ProviderSettings, modelName: string): Promise<string> => {
+  // Only a hash of the API key is kept as a map key
+  const keyHash = await hashText(settings.apiKey);
+  return [settings.providerId, settings.recordingMode || 'off', settings.baseUrl || '', keyHash, modelName].join('\u0000');
+};
+
+/**
+ * Check that the key reaches the model, answering from the cache while an earlier check is recent.
+ * Failures are thrown as ApiErrors.
+ */
+export const checkProviderHealth = async (
+  settings: ProviderSettings,
+  modelName: string,
+  options: { force?: boolean } = {}
+): Promise<HealthCheckResult> => {
+  const key = await healthCacheKey(settings, modelName);
+  const cached = healthCache.get(key);
+  if (cached && !options.force) {
+    const result = await cached;
+    if (Date.now() - new Date(result.checkedAt).getTime() < HEALTH_CACHE_MS) return result;
+  }
+
+  const check = (async () => {
+    const startedAt = performance.now();
+    try {
+      const health = await resolveProvider(settings).checkHealth(settings, modelName);
+      return { ...health, latencyMs: Math.round(performance.now() - startedAt), checkedAt: new Date().toISOString() };
+    } catch (error) {
+      throw toApiError(error);
+    }
+  })();
+  healthCache.set(key, check);
+  check.catch(() => {
+    if (healthCache.get(key) === check) healthCache.delete(key);
+  });
+  return check;
+};
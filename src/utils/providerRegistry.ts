@@ -0,0 +1,38 @@
+/**
+ * The language model providers the user can choose from
+ */
+import { LlmProvider, ProviderId, ProviderSettings } from './llmProvider';
+import { geminiProvider } from './geminiApi';
+import { openAiProvider } from './openAiApi';
+import { localProvider } from './localModelApi';
+import { mockProvider } from './mockProvider';
+import { withRecording } from './responseRecorder';
+
+export const PROVIDERS: LlmProvider[] = [geminiProvider, openAiProvider, localProvider, mockProvider];
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'gemini';
+
+/**
+ * Look up a provider by id
+ */
+export const getProvider = (id: ProviderId): LlmProvider => {
+  const provider = PROVIDERS.find(candidate => candidate.id === id);
+  if (!provider) {
+    throw new Error(`Unknown provider "${id}"`);
+  }
+  return provider;
+};
+
+/**
+ * The provider to call with these settings, recording or replaying its responses when asked to
+ */
+export const resolveProvider = (settings: ProviderSettings): LlmProvider => {
+  return withRecording(getProvider(settings.providerId), settings.recordingMode || 'off');
+};
+
+/**
+ * Whether the settings hold everything the provider needs before it can be asked for models
+ */
+export const isProviderConfigured = (settings: ProviderSettings): boolean => {
+  return !resolveProvider(settings).requiresApiKey || Boolean(settings.apiKey);
+};
@@ -0,0 +1,74 @@
+/**
+ * Utilities for running model requests side by side within the rate limits of an API
+ */
+import { delay } from './jobControl';
+
+// Rate limits of model APIs are counted per minute
+const RATE_WINDOW_MS = 60000;
+
+export interface RateLimits {
+  // No limit when empty or 0
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface RateLimiter {
+  // Resolves once a request of this many tokens fits in the limits, and counts it.
+  // Rejects with a JobCancelledError if the signal aborts while waiting.
+  acquire: (tokens: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Create a limiter that keeps requests and tokens within a sliding one-minute window.
+ * Requests are let through in the order they asked.
+ */
+export const createRateLimiter = (limits: RateLimits): RateLimiter => {
+  const { requestsPerMinute = 0, tokensPerMinute = 0 } = limits;
+  const sent: Array<{ time: number; tokens: number }> = [];
+  let queue: Promise<void> = Promise.resolve();
+
+  const waitForTurn = async (tokens: number, signal?: AbortSignal) => {
+    for (;;) {
+      const now = Date.now();
+      while (sent.length > 0 && sent[0].time <= now - RATE_WINDOW_MS) sent.shift();
+
+      const usedTokens = sent.reduce((sum, request) => sum + request.tokens, 0);
+      const requestsFit = !requestsPerMinute || sent.length < requestsPerMinute;
+      // A request larger than the whole token budget goes out alone instead of waiting forever
+      const tokensFit = !tokensPerMinute || usedTokens + tokens <= tokensPerMinute || sent.length === 0;
+      if (requestsFit && tokensFit) {
+        sent.push({ time: now, tokens });
+        return;
+      }
+
+      console.log(`Rate limit reached, waiting ${Math.ceil((sent[0].time + RATE_WINDOW_MS - now) / 1000)}s`);
+      await delay(sent[0].time + RATE_WINDOW_MS - now, signal);
+    }
+  };
+
+  return {
+    acquire: (tokens: number, signal?: AbortSignal) => {
+      const turn = queue.then(() => waitForTurn(tokens, signal));
+      // A cancelled wait must not hold up the requests queued behind it
+      queue = turn.catch(() => undefined);
+      return turn;
+    }
+  };
+};
+
+/**
+ * Run a worker on items that are only made once a worker is free, with at most `concurrency`
+ * workers at a time. `next` ends the run by returning undefined.
+ */
+export const runQueueWithConcurrency = async <T>(
+  next: () => T | undefined,
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  const runners = Array.from({ length: Math.max(1, concurrency) }, async () => {
+    for (let item = next(); item !== undefined; item = next()) {
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+};
@@ -0,0 +1,223 @@
+/**
+ * Record real prompt and response pairs in IndexedDB and answer later calls from them, so a run
+ * can be reproduced, demonstrated offline or used as a test fixture
+ */
+import { TerminologyPair } from './glossary';
+import { JsonSchema, LlmModel, LlmProvider, ProviderId, RecordingMode, estimateTokens } from './llmProvider';
+import { putStoreRecords, runStoreRequest } from './indexedDb';
+import { throwIfCancelled } from './jobControl';
+import { hashText } from './hashing';
+import { ApiError, ApiErrorKind } from './apiErrors';
+
+const STORE_NAME = 'recordings';
+
+// Format marker of exported recording files
+const EXPORT_FORMAT = 'tmx-terminology-recordings';
+const EXPORT_VERSION = 1;
+
+// Token counts are recorded too: they set where chunks are cut, and replayed prompts must be cut the same way
+type RecordedCall = 'extractTerms' | 'generateJson' | 'countTokens';
+
+export interface RecordedResponse {
+  // Provider, model, call and a hash of the prompt, so identical calls share one record
+  key: string;
+  providerId: ProviderId;
+  modelName: string;
+  call: RecordedCall;
+  prompt: string;
+  response: unknown;
+  recordedAt: string;
+}
+
+// Failed answers that decide how the job goes on: the chunk is sent again in smaller parts
+const RECORDED_ERROR_KINDS: ApiErrorKind[] = ['truncation', 'context-length'];
+
+/**
+ * A failed answer as recorded in place of the response
+ */
+interface RecordedError {
+  error: { kind: ApiErrorKind; message: string; status?: number; partialText?: string };
+}
+
+const isRecordedError = (response: unknown): response is RecordedError => {
+  return typeof response === 'object' && response !== null && 'error' in response;
+};
+
+/**
+ * Thrown in replay mode when no response was recorded for a call. Asking again finds nothing
+ * either, so the chunk fails without retries.
+ */
+export class MissingRecordingError extends ApiError {
+  constructor(modelName: string) {
+    super('missing-recording', `No recorded response matches this prompt for ${modelName}. Record it with a live provider first.`);
+    this.name = 'MissingRecordingError';
+  }
+}
+
+const recordingKey = async (providerId: ProviderId, modelName: string, call: RecordedCall, prompt: string) => {
+  return `${providerId}|${modelName}|${call}|${await hashText(prompt)}`;
+};
+
+/**
+ * All recorded responses, oldest first
+ */
+export const listRecordings = async (): Promise<RecordedResponse[]> => {
+  const recordings = await runStoreRequest<RecordedResponse[]>(STORE_NAME, 'readonly', store => store.getAll());
+  return recordings.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+};
+
+export const countRecordings = (): Promise<number> => {
+  return runStoreRequest<number>(STORE_NAME, 'readonly', store => store.count());
+};
+
+export const clearRecordings = async (): Promise<void> => {
+  await runStoreRequest(STORE_NAME, 'readwrite', store => store.clear());
+};
+
+/**
+ * Serialise every recording into a JSON file that can be shared or checked in as a fixture
+ */
+export const exportRecordings = async (): Promise<string> => {
+  const recordings = await listRecordings();
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, recordings }, null, 2);
+};
+
+/**
+ * Add the recordings of an exported file, replacing recordings of the same calls. Returns how many were read.
+ */
+export const importRecordings = async (json: string): Promise<number> => {
+  let data: { format?: unknown; recordings?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.recordings)) {
+    throw new Error("The file does not contain recorded responses");
+  }
+
+  const recordings = (data.recordings as RecordedResponse[]).filter(recording =>
+    typeof recording?.key === 'string' && typeof recording.prompt === 'string' && 'response' in recording
+  );
+  await putStoreRecords(STORE_NAME, recordings);
+  return recordings.length;
+};
+
+const saveRecording = async (
+  providerId: ProviderId,
+  modelName: string,
+  call: RecordedCall,
+  prompt: string,
+  response: unknown
+) => {
+  const recording: RecordedResponse = {
+    key: await recordingKey(providerId, modelName, call, prompt),
+    providerId,
+    modelName,
+    call,
+    prompt,
+    response,
+    recordedAt: new Date().toISOString()
+  };
+  try {
+    await runStoreRequest(STORE_NAME, 'readwrite', store => store.put(recording));
+  } catch (error) {
+    // A full or blocked database must not fail the extraction itself
+    console.error("Could not record response:", error);
+  }
+};
+
+const findRecording = async (
+  providerId: ProviderId,
+  modelName: string,
+  call: RecordedCall,
+  prompt: string
+): Promise<RecordedResponse | undefined> => {
+  const key = await recordingKey(providerId, modelName, call, prompt);
+  return runStoreRequest<RecordedResponse | undefined>(STORE_NAME, 'readonly', store => store.get(key));
+};
+
+/**
+ * Wrap a provider so its calls are saved (record) or answered from saved calls (replay).
+ * Replay never reaches the provider, so it needs no key and lists the recorded models.
+ */
+export const withRecording = (provider: LlmProvider, mode: RecordingMode): LlmProvider => {
+  if (mode === 'off') return provider;
+
+  if (mode === 'record') {
+    return {
+      ...provider,
+      extractTerms: async (settings, modelName, prompt, signal, onUsage) => {
+        let pairs: TerminologyPair[];
+        try {
+          pairs = await provider.extractTerms(settings, modelName, prompt, signal, onUsage);
+        } catch (error) {
+          if (error instanceof ApiError && RECORDED_ERROR_KINDS.includes(error.kind)) {
+            const { kind, message, status, partialText } = error;
+            const recordedError: RecordedError = { error: { kind, message, status, partialText } };
+            await saveRecording(provider.id, modelName, 'extractTerms', prompt, recordedError);
+          }
+          throw error;
+        }
+        await saveRecording(provider.id, modelName, 'extractTerms', prompt, pairs);
+        return pairs;
+      },
+      generateJson: async (settings, modelName, prompt, schema, signal) => {
+        const answer = await provider.generateJson(settings, modelName, prompt, schema, signal);
+        await saveRecording(provider.id, modelName, 'generateJson', prompt, answer);
+        return answer;
+      },
+      countTokens: async (settings, modelName, text) => {
+        const tokens = await provider.countTokens(settings, modelName, text);
+        await saveRecording(provider.id, modelName, 'countTokens', text, tokens);
+        return tokens;
+      }
+    };
+  }
+
+  return {
+    ...provider,
+    requiresApiKey: false,
+    listModels: async (): Promise<LlmModel[]> => {
+      const names = new Set(
+        (await listRecordings())
+          .filter(recording => recording.providerId === provider.id)
+          .map(recording => recording.modelName)
+      );
+      if (names.size === 0) {
+        throw new Error(`No responses have been recorded for ${provider.label} yet`);
+      }
+      return Array.from(names, name => ({ name, displayName: `${name} (recorded)` }));
+    },
+    // Replayed answers cost nothing, so no token usage is reported
+    extractTerms: async (_settings, modelName, prompt, signal): Promise<TerminologyPair[]> => {
+      throwIfCancelled(signal);
+      const recording = await findRecording(provider.id, modelName, 'extractTerms', prompt);
+      if (!recording) throw new MissingRecordingError(modelName);
+      if (isRecordedError(recording.response)) {
+        const { kind, message, status, partialText } = recording.response.error;
+        throw new ApiError(kind, message, { status, partialText });
+      }
+      return recording.response as TerminologyPair[];
+    },
+    generateJson: async (_settings, modelName, prompt, _schema: JsonSchema, signal): Promise<unknown> => {
+      throwIfCancelled(signal);
+      const recording = await findRecording(provider.id, modelName, 'generateJson', prompt);
+      if (!recording) throw new MissingRecordingError(modelName);
+      return recording.response;
+    },
+    // Recordings made before token counts were recorded fall back to the offline estimate
+    countTokens: async (_settings, modelName, text) => {
+      const recording = await findRecording(provider.id, modelName, 'countTokens', text);
+      return typeof recording?.response === 'number' ? recording.response : estimateTokens(text);
+    },
+    checkHealth: async (_settings, modelName) => {
+      const recorded = (await listRecordings())
+        .some(recording => recording.providerId === provider.id && recording.modelName === modelName);
+      if (!recorded) {
+        throw new ApiError('invalid-model', `No responses have been recorded for ${modelName}`);
+      }
+      return { method: "recorded responses, no request", model: { name: modelName, displayName: `${modelName} (recorded)` } };
+    }
+  };
+};
@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { highlightTermInSegment, parseSegmentElement, renderSegmentText, stripPlaceholderTokens } from './segmentMarkup';
+
+const parseSegment = (markup: string) => {
+  const xml = new DOMParser().parseFromString(`<source>${markup}</source>`, "text/xml");
+  return parseSegmentElement(xml.documentElement);
+};
+
+describe('segment markup', () => {
+  it.each([
+    ['TMX bpt/ept pairs', 'A <bpt i="7">&lt;b&gt;</bpt>bold<ept i="7">&lt;/b&gt;</ept> word', 'A {1}bold{/1} word'],
+    ['TMX isolated codes', '<it pos="begin">&lt;i&gt;</it>open<it pos="end">&lt;/i&gt;</it>', '{1}open{/2}'],
+    ['XLIFF 1.2 g and x', 'Click <g id="1">here</g><x id="2"/>', 'Click {1}here{/1}{2/}'],
+    ['XLIFF 1.2 bx/ex pairs', '<bx id="1" rid="r1"/>Title<ex id="2" rid="r1"/>', '{1}Title{/1}'],
+    ['XLIFF 2 sc/ec pairs and pc wrappers', '<sc id="s1"/>Go<ec startRef="s1"/> <pc id="p1">now</pc>', '{1}Go{/1} {2}now{/2}'],
+    ['XLIFF 2 cp characters', 'Bell<cp hex="2603"/>', 'Bell☃']
+  ])('numbers %s as placeholders', (_, markup, placeholders) => {
+    expect(renderSegmentText(parseSegment(markup), 'placeholder')).toBe(placeholders);
+  });
+
+  it('drops codes and their native content from the plain text', () => {
+    const segment = parseSegment('Press <ph>&lt;kbd&gt;<sub>Enter</sub>&lt;/kbd&gt;</ph>  to <hi>continue</hi>');
+
+    expect(renderSegmentText(segment)).toBe('Press to continue');
+    expect(segment.parts[1]).toMatchObject({ type: 'code', tag: 'ph', code: '<kbd>Enter</kbd>' });
+  });
+
+  it.each([
+    ['{1}Save{/1} file', 'Save file'],
+    ['Page {2/} of {3/}', 'Page of'],
+    ['{not a code}', '{not a code}']
+  ])('strips placeholders from "%s"', (text, stripped) => {
+    expect(stripPlaceholderTokens(text)).toBe(stripped);
+  });
+
+  it('highlights a term across inline codes, ignoring case', () => {
+    const runs = highlightTermInSegment(parseSegment('Open <g id="1">Save</g> As'), 'save as');
+
+    expect(runs.map(run => (run.type === 'text' ? [run.text, run.highlighted] : run.closing ? '{/g}' : '{g}'))).toEqual([
+      ['Open ', false],
+      '{g}',
+      ['Save', true],
+      '{/g}',
+      [' As', true]
+    ]);
+  });
+});
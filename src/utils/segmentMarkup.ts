@@ -0,0 +1,311 @@
+/**
+ * Utilities for working with inline markup inside TMX (bpt/ept/ph/it/hi) and XLIFF segments
+ */
+
+export type InlineTagName =
+  | 'bpt' | 'ept' | 'ph' | 'it' | 'hi'
+  // XLIFF 1.2
+  | 'g' | 'x' | 'bx' | 'ex' | 'mrk'
+  // XLIFF 2.x
+  | 'pc' | 'sc' | 'ec' | 'sm' | 'em';
+
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * An inline code. Paired codes (bpt/ept, and the open/close halves of wrappers such
+ * as hi or g) share the same id; `closing` marks the second half of a pair.
+ */
+export interface CodePart {
+  type: 'code';
+  tag: InlineTagName;
+  id: number;
+  // Native code carried by the tag, e.g. RTF or HTML formatting
+  code: string;
+  closing?: boolean;
+  attributes?: Record<string, string>;
+}
+
+export type SegmentPart = TextPart | CodePart;
+
+export interface Segment {
+  parts: SegmentPart[];
+}
+
+/**
+ * How inline codes are represented in the text sent to the model
+ */
+export type InlineCodeMode = 'strip' | 'placeholder';
+
+/**
+ * A piece of a segment prepared for display, with text runs split on term matches
+ */
+export type SegmentRun = (TextPart & { highlighted: boolean }) | CodePart;
+
+// Elements whose content is native code (empty ones such as <x/> or <sc/> carry none)
+const CODE_TAGS: InlineTagName[] = ['bpt', 'ept', 'ph', 'it', 'x', 'bx', 'ex', 'sc', 'ec', 'sm', 'em'];
+// Elements that wrap translatable text; both ends are kept as codes
+const WRAPPER_TAGS: InlineTagName[] = ['hi', 'g', 'mrk', 'pc'];
+// Codes that close a pair opened by an earlier code
+const CLOSING_TAGS: InlineTagName[] = ['ept', 'ex', 'ec', 'em'];
+// Codes that open a pair closed by a later code
+const OPENING_TAGS: InlineTagName[] = ['bpt', 'bx', 'sc', 'sm'];
+
+/**
+ * Key that pairs an opening code with its closing code, built from the pairing attribute
+ */
+const getPairKey = (tag: InlineTagName, attributes: Record<string, string>): string | undefined => {
+  const withPrefix = (prefix: string, value?: string) => (value ? `${prefix}:${value}` : undefined);
+  switch (tag) {
+    case 'bpt':
+    case 'ept':
+      return withPrefix('i', attributes.i);
+    case 'bx':
+    case 'ex':
+      return withPrefix('rid', attributes.rid);
+    case 'sc':
+      return withPrefix('sc', attributes.id);
+    case 'ec':
+      return withPrefix('sc', attributes.startRef || attributes.id);
+    case 'sm':
+      return withPrefix('sm', attributes.id);
+    case 'em':
+      return withPrefix('sm', attributes.startRef);
+    default:
+      return undefined;
+  }
+};
+
+export interface SegmentBuilder {
+  openTag: (name: string, attributes: Record<string, string>) => void;
+  closeTag: (name: string) => void;
+  text: (text: string) => void;
+  finish: () => Segment;
+}
+
+/**
+ * Create a builder that assembles a segment from the tags and text found inside a <seg>
+ * element, keeping inline codes apart from the text. Used by both the DOM and streaming parsers.
+ */
+export const createSegmentBuilder = (): SegmentBuilder => {
+  const parts: SegmentPart[] = [];
+  // Paired codes (bpt/ept, bx/ex, sc/ec) are matched through their pairing attribute
+  const pairIds = new Map<string, number>();
+  // Open wrapper elements, whose closing marker reuses the opening id
+  const wrapperIds: number[] = [];
+  let nextId = 1;
+  // The code whose native content is being read, and how deeply nested inside it we are
+  let currentCode: CodePart | null = null;
+  let codeDepth = 0;
+
+  return {
+    openTag: (name, attributes) => {
+      if (currentCode) {
+        // Elements inside a code (e.g. <sub>) are part of the native code
+        codeDepth++;
+        return;
+      }
+
+      if (name === 'cp') {
+        // XLIFF 2 <cp hex="..."/> stands for a character that XML cannot carry
+        const codePoint = parseInt(attributes.hex || "", 16);
+        if (!isNaN(codePoint)) appendText(parts, String.fromCodePoint(codePoint));
+        return;
+      }
+
+      const tag = name as InlineTagName;
+
+      if (WRAPPER_TAGS.includes(tag)) {
+        // Wrappers hold translatable text: keep their content and mark both ends
+        const id = nextId++;
+        wrapperIds.push(id);
+        parts.push({ type: 'code', tag, id, code: "", attributes });
+        return;
+      }
+
+      if (!CODE_TAGS.includes(tag)) return;
+
+      let id: number;
+      const pairKey = getPairKey(tag, attributes);
+      if (pairKey) {
+        id = pairIds.get(pairKey) ?? nextId++;
+        pairIds.set(pairKey, id);
+      } else {
+        id = nextId++;
+      }
+
+      currentCode = {
+        type: 'code',
+        tag,
+        id,
+        code: "",
+        closing: CLOSING_TAGS.includes(tag) || (tag === 'it' && attributes.pos === 'end') || undefined,
+        attributes
+      };
+      parts.push(currentCode);
+    },
+    closeTag: (name) => {
+      if (currentCode) {
+        if (codeDepth > 0) {
+          codeDepth--;
+        } else {
+          currentCode = null;
+        }
+        return;
+      }
+      const tag = name as InlineTagName;
+      if (WRAPPER_TAGS.includes(tag)) {
+        const id = wrapperIds.pop();
+        if (id !== undefined) {
+          parts.push({ type: 'code', tag, id, code: "", closing: true });
+        }
+      }
+    },
+    text: (text) => {
+      if (currentCode) {
+        currentCode.code += text;
+      } else {
+        appendText(parts, text);
+      }
+    },
+    finish: () => ({ parts })
+  };
+};
+
+/**
+ * Build a segment model from a TMX <seg> or XLIFF <source>/<target> element
+ */
+export const parseSegmentElement = (seg: Element): Segment => {
+  const builder = createSegmentBuilder();
+
+  const walk = (node: Node) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
+        builder.text(child.textContent || "");
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        const element = child as Element;
+        const attributes: Record<string, string> = {};
+        Array.from(element.attributes).forEach(attr => {
+          attributes[attr.name] = attr.value;
+        });
+        builder.openTag(element.localName, attributes);
+        walk(element);
+        builder.closeTag(element.localName);
+      }
+    });
+  };
+
+  walk(seg);
+  return builder.finish();
+};
+
+/**
+ * Create a segment holding plain text only
+ */
+export const createTextSegment = (text: string): Segment => ({
+  parts: text ? [{ type: 'text', text }] : []
+});
+
+const appendText = (parts: SegmentPart[], text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === 'text') {
+    last.text += text;
+  } else {
+    parts.push({ type: 'text', text });
+  }
+};
+
+/**
+ * Placeholder token for an inline code, e.g. {1}, {/1} or {2/}
+ */
+const placeholderFor = (part: CodePart): string => {
+  if (part.closing) return `{/${part.id}}`;
+  if (
+    OPENING_TAGS.includes(part.tag) ||
+    WRAPPER_TAGS.includes(part.tag) ||
+    (part.tag === 'it' && part.attributes?.pos === 'begin')
+  ) {
+    return `{${part.id}}`;
+  }
+  return `{${part.id}/}`;
+};
+
+/**
+ * Render a segment as text for the model, dropping inline codes or replacing them with placeholder tokens
+ */
+export const renderSegmentText = (segment: Segment, mode: InlineCodeMode = 'strip'): string => {
+  const text = segment.parts
+    .map(part => {
+      if (part.type === 'text') return part.text;
+      return mode === 'placeholder' ? placeholderFor(part) : "";
+    })
+    .join("");
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Plain text of a segment with inline codes removed
+ */
+export const segmentToPlainText = (segment: Segment): string => renderSegmentText(segment, 'strip');
+
+/**
+ * Remove placeholder tokens such as {1}, {/1} or {2/} that the model may have copied into a term
+ */
+export const stripPlaceholderTokens = (text: string): string => {
+  return text.replace(/\{\/?\d+\/?\}/g, '').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Split the text of a segment on case-insensitive occurrences of a term so it can be
+ * highlighted next to the original inline codes. Matches may span codes.
+ */
+export const highlightTermInSegment = (segment: Segment, term: string): SegmentRun[] => {
+  // Offsets are computed on the raw concatenated text, in which codes take up no space
+  const rawText = segment.parts.map(part => (part.type === 'text' ? part.text : "")).join("");
+  const ranges: Array<[number, number]> = [];
+  const needle = term.trim().toLowerCase();
+
+  if (needle) {
+    const haystack = rawText.toLowerCase();
+    let index = haystack.indexOf(needle);
+    while (index !== -1) {
+      ranges.push([index, index + needle.length]);
+      index = haystack.indexOf(needle, index + needle.length);
+    }
+  }
+
+  const runs: SegmentRun[] = [];
+  let offset = 0;
+
+  segment.parts.forEach(part => {
+    if (part.type === 'code') {
+      runs.push(part);
+      return;
+    }
+
+    const start = offset;
+    const end = offset + part.text.length;
+    let cursor = start;
+
+    ranges.forEach(([rangeStart, rangeEnd]) => {
+      const from = Math.max(rangeStart, start);
+      const to = Math.min(rangeEnd, end);
+      if (from >= to) return;
+      if (from > cursor) {
+        runs.push({ type: 'text', text: rawText.slice(cursor, from), highlighted: false });
+      }
+      runs.push({ type: 'text', text: rawText.slice(from, to), highlighted: true });
+      cursor = to;
+    });
+
+    if (cursor < end) {
+      runs.push({ type: 'text', text: rawText.slice(cursor, end), highlighted: false });
+    }
+    offset = end;
+  });
+
+  return runs;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AlignedPair, alignSentences, alignedPairsToTmxData, mergeAlignedPairs, splitSentences } from './sentenceAligner';
+
+const sides = (pairs: AlignedPair[]) => pairs.map(pair => [pair.source, pair.target]);
+
+describe('splitSentences', () => {
+  it.each([
+    ['sentence ends', ["Open the file. Save it! Done?"], ["Open the file.", "Save it!", "Done?"]],
+    ['paragraph ends without punctuation', ["Heading", "Body text."], ["Heading", "Body text."]],
+    ['empty paragraphs', ["First.", "   ", "Second."], ["First.", "Second."]]
+  ])('splits on %s', (_, paragraphs, sentences) => {
+    expect(splitSentences(paragraphs, 'en')).toEqual(sentences);
+  });
+});
+
+describe('alignSentences', () => {
+  it('pairs sentences one to one when their lengths match', () => {
+    const pairs = alignSentences(
+      ["The file was saved.", "Close the window now.", "Thanks."],
+      ["Die Datei wurde gespeichert.", "Schließen Sie jetzt das Fenster.", "Danke."]
+    );
+
+    expect(sides(pairs)).toEqual([
+      [["The file was saved."], ["Die Datei wurde gespeichert."]],
+      [["Close the window now."], ["Schließen Sie jetzt das Fenster."]],
+      [["Thanks."], ["Danke."]]
+    ]);
+    expect(pairs.every(pair => !pair.needsReview)).toBe(true);
+  });
+
+  it('joins a sentence the translation split in two', () => {
+    const pairs = alignSentences(
+      ["Open the settings.", "Choose a language from the list and confirm it with OK.", "Restart."],
+      ["Öffnen Sie die Einstellungen.", "Wählen Sie eine Sprache aus der Liste.", "Bestätigen Sie mit OK.", "Neu starten."]
+    );
+
+    expect(sides(pairs)[1]).toEqual([
+      ["Choose a language from the list and confirm it with OK."],
+      ["Wählen Sie eine Sprache aus der Liste.", "Bestätigen Sie mit OK."]
+    ]);
+  });
+
+  it('flags a whole side for review when the other is empty', () => {
+    expect(alignSentences(["Only source."], [])).toEqual([{ source: ["Only source."], target: [], cost: 0, needsReview: true }]);
+    expect(alignSentences([], [])).toEqual([]);
+  });
+});
+
+describe('alignedPairsToTmxData', () => {
+  it('numbers the pairs, records their shape and leaves out pairs with an empty side', () => {
+    const pairs: AlignedPair[] = [
+      { source: ["Hello."], target: ["Hallo."], cost: 0, needsReview: false },
+      { source: ["Extra."], target: [], cost: 5, needsReview: true },
+      mergeAlignedPairs(
+        { source: ["Bye."], target: ["Tschüss."], cost: 1, needsReview: true },
+        { source: [], target: ["Bis bald."], cost: 4, needsReview: true }
+      )
+    ];
+
+    const data = alignedPairsToTmxData(pairs, 'en_us', 'de', 'guide.docx');
+
+    expect([data.sourceLanguage, data.targetLanguage]).toEqual(['en-US', 'de']);
+    expect(data.translationUnits.map(unit => [unit.metadata?.tuid, unit.target, unit.metadata?.props])).toEqual([
+      ['1', 'Hallo.', [{ type: 'file', value: 'guide.docx' }, { type: 'alignment', value: '1-1' }]],
+      ['3', 'Tschüss. Bis bald.', [{ type: 'file', value: 'guide.docx' }, { type: 'alignment', value: '1-2' }]]
+    ]);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Sentence alignment of a document and its translation, for building translation units
+ * when no translation memory exists
+ */
+import { MultilingualUnit, TmxData, buildTmxData } from './tmxParser';
+import { createTextSegment } from './segmentMarkup';
+import { JsonSchema, ProviderSettings } from './llmProvider';
+import { resolveProvider } from './providerRegistry';
+import { describeLanguage, normalizeLanguageTag } from './languageCodes';
+
+export interface AlignedPair {
+  source: string[];
+  target: string[];
+  // Gale–Church cost of the pair; 0 for pairs set by the model or by hand
+  cost: number;
+  needsReview: boolean;
+}
+
+export interface LlmAlignmentOptions {
+  providerSettings: ProviderSettings;
+  modelName: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Sentence counts (source, target) the aligner can pair, with their prior probabilities (Gale & Church 1993)
+const BEADS: Array<{ source: number; target: number; prior: number }> = [
+  { source: 1, target: 1, prior: 0.89 },
+  { source: 1, target: 0, prior: 0.0099 / 2 },
+  { source: 0, target: 1, prior: 0.0099 / 2 },
+  { source: 2, target: 1, prior: 0.089 / 2 },
+  { source: 1, target: 2, prior: 0.089 / 2 },
+  { source: 2, target: 2, prior: 0.011 }
+];
+
+// Variance of the target/source length ratio per character
+const LENGTH_VARIANCE = 6.8;
+// Pairs above this cost (roughly two standard deviations off the expected length) are flagged for review
+const REVIEW_COST_THRESHOLD = 3.5;
+// Half-width of the search band around the diagonal, in sentences
+const SEARCH_BAND = 100;
+// Largest number of sentences per side sent to the model in one request
+const MAX_LLM_WINDOW = 20;
+
+type SentenceSegmenter = { segment: (text: string) => Iterable<{ segment: string }> };
+type SegmenterConstructor = new (locale: string, options: { granularity: 'sentence' }) => SentenceSegmenter;
+
+/**
+ * Split paragraphs into sentences. Paragraph ends are always sentence ends.
+ */
+export const splitSentences = (paragraphs: string[], language: string): string[] => {
+  const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+  let segmenter: SentenceSegmenter | null = null;
+  if (Segmenter) {
+    try {
+      segmenter = new Segmenter(language, { granularity: 'sentence' });
+    } catch {
+      segmenter = new Segmenter('en', { granularity: 'sentence' });
+    }
+  }
+
+  return paragraphs.flatMap(paragraph => {
+    const sentences = segmenter
+      ? Array.from(segmenter.segment(paragraph), part => part.segment)
+      : paragraph.match(/[^.!?。！？]+(?:[.!?。！？]+["'”’)\]]*\s*|$)/g) || [paragraph];
+    return sentences.map(sentence => sentence.trim()).filter(Boolean);
+  });
+};
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 26.2.17)
+ */
+const normalCdf = (x: number): number => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const density = Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - tail : tail;
+};
+
+const beadCost = (sourceLength: number, targetLength: number, prior: number, ratio: number): number => {
+  const mean = (sourceLength + targetLength / ratio) / 2;
+  const delta = mean > 0 ? (targetLength - sourceLength * ratio) / Math.sqrt(mean * LENGTH_VARIANCE) : 0;
+  const probability = Math.max(2 * (1 - normalCdf(Math.abs(delta))), 1e-12);
+  return -Math.log(probability) - Math.log(prior);
+};
+
+const sumLengths = (sentences: string[], end: number, count: number): number => {
+  let total = 0;
+  for (let k = end - count; k < end; k++) total += sentences[k].length;
+  return total;
+};
+
+/**
+ * Length-based alignment in the style of Gale & Church. The search is limited to a band
+ * around the diagonal so long documents stay within memory.
+ */
+export const alignSentences = (sourceSentences: string[], targetSentences: string[]): AlignedPair[] => {
+  const n = sourceSentences.length;
+  const m = targetSentences.length;
+  if (n === 0 || m === 0) {
+    return [{ source: sourceSentences, target: targetSentences, cost: 0, needsReview: true }]
+      .filter(pair => pair.source.length > 0 || pair.target.length > 0);
+  }
+
+  // Expected target characters per source character, taken from the documents themselves
+  const sourceTotal = sourceSentences.reduce((sum, sentence) => sum + sentence.length, 0);
+  const targetTotal = targetSentences.reduce((sum, sentence) => sum + sentence.length, 0);
+  const ratio = sourceTotal > 0 && targetTotal > 0 ? targetTotal / sourceTotal : 1;
+
+  const width = 2 * SEARCH_BAND + 1;
+  const center = (i: number) => Math.round((i * m) / n);
+  const costs = new Float64Array((n + 1) * width).fill(Infinity);
+  const steps = new Int8Array((n + 1) * width).fill(-1);
+  const cellIndex = (i: number, j: number): number => {
+    const column = j - center(i) + SEARCH_BAND;
+    return column >= 0 && column < width ? i * width + column : -1;
+  };
+
+  costs[cellIndex(0, 0)] = 0;
+  for (let i = 0; i <= n; i++) {
+    const from = Math.max(0, center(i) - SEARCH_BAND);
+    const to = Math.min(m, center(i) + SEARCH_BAND);
+    for (let j = from; j <= to; j++) {
+      if (i === 0 && j === 0) continue;
+      const cell = cellIndex(i, j);
+      BEADS.forEach((bead, beadIndex) => {
+        if (bead.source > i || bead.target > j) return;
+        const previous = cellIndex(i - bead.source, j - bead.target);
+        if (previous === -1 || costs[previous] === Infinity) return;
+        const cost = costs[previous] + beadCost(
+          sumLengths(sourceSentences, i, bead.source),
+          sumLengths(targetSentences, j, bead.target),
+          bead.prior,
+          ratio
+        );
+        if (cost < costs[cell]) {
+          costs[cell] = cost;
+          steps[cell] = beadIndex;
+        }
+      });
+    }
+  }
+
+  if (costs[cellIndex(n, m)] === Infinity) {
+    throw new Error("The documents differ too much in sentence count to be aligned");
+  }
+
+  // Walk back from the end of both documents
+  const pairs: AlignedPair[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const cell = cellIndex(i, j);
+    const bead = BEADS[steps[cell]];
+    const previous = cellIndex(i - bead.source, j - bead.target);
+    const cost = costs[cell] - costs[previous];
+    pairs.push({
+      source: sourceSentences.slice(i - bead.source, i),
+      target: targetSentences.slice(j - bead.target, j),
+      cost,
+      needsReview: bead.source === 0 || bead.target === 0 || cost > REVIEW_COST_THRESHOLD
+    });
+    i -= bead.source;
+    j -= bead.target;
+  }
+
+  pairs.reverse();
+  console.log(`Aligned ${n} source and ${m} target sentences into ${pairs.length} pairs,`,
+    pairs.filter(pair => pair.needsReview).length, "flagged for review");
+  return pairs;
+};
+
+const ALIGNMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    pairs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          source: { type: 'array', items: { type: 'integer' } },
+          target: { type: 'array', items: { type: 'integer' } }
+        },
+        required: ['source', 'target']
+      }
+    }
+  },
+  required: ['pairs']
+};
+
+/**
+ * Check that the model's answer uses every sentence exactly once, in document order
+ */
+const readLlmPairs = (answer: unknown, sourceCount: number, targetCount: number): Array<{ source: number[]; target: number[] }> | null => {
+  const pairs = (answer as { pairs?: unknown } | null)?.pairs;
+  if (!Array.isArray(pairs)) return null;
+
+  let nextSource = 1;
+  let nextTarget = 1;
+  for (const pair of pairs) {
+    const source: unknown = pair?.source;
+    const target: unknown = pair?.target;
+    if (!Array.isArray(source) || !Array.isArray(target) || source.length + target.length === 0) return null;
+    for (const index of source) if (index !== nextSource++) return null;
+    for (const index of target) if (index !== nextTarget++) return null;
+  }
+  if (nextSource !== sourceCount + 1 || nextTarget !== targetCount + 1) return null;
+  return pairs as Array<{ source: number[]; target: number[] }>;
+};
+
+/**
+ * Ranges of pairs to send to the model: runs of flagged pairs plus one neighbour on each side
+ */
+const findReviewWindows = (pairs: AlignedPair[]): Array<[number, number]> => {
+  const windows: Array<[number, number]> = [];
+  pairs.forEach((pair, index) => {
+    if (!pair.needsReview) return;
+    const start = Math.max(0, index - 1);
+    const end = Math.min(pairs.length, index + 2);
+    const last = windows[windows.length - 1];
+    const sentenceCount = (from: number, to: number) =>
+      Math.max(...(['source', 'target'] as const).map(side =>
+        pairs.slice(from, to).reduce((sum, p) => sum + p[side].length, 0)
+      ));
+
+    if (last && start <= last[1] && sentenceCount(last[0], end) <= MAX_LLM_WINDOW) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      // Windows must not overlap, since each one is replaced as a whole
+      windows.push([last ? Math.max(start, last[1]) : start, end]);
+    }
+  });
+  return windows;
+};
+
+/**
+ * Re-align the uncertain parts of an alignment with the model. Windows where the model's
+ * answer is missing or inconsistent keep their length-based alignment.
+ */
+export const refineAlignmentWithLlm = async (pairs: AlignedPair[], options: LlmAlignmentOptions): Promise<AlignedPair[]> => {
+  const provider = resolveProvider(options.providerSettings);
+  const windows = findReviewWindows(pairs);
+  const replacements = new Map<number, { end: number; pairs: AlignedPair[] }>();
+  console.log(`Refining ${windows.length} uncertain regions with ${options.modelName}`);
+
+  for (let w = 0; w < windows.length; w++) {
+    const [start, end] = windows[w];
+    const sources = pairs.slice(start, end).flatMap(pair => pair.source);
+    const targets = pairs.slice(start, end).flatMap(pair => pair.target);
+
+    const prompt = `You are aligning a document in ${describeLanguage(options.sourceLanguage)} with its translation in ${describeLanguage(options.targetLanguage)}.
+Group the numbered source and target sentences below into translation pairs.
+Keep document order, use every sentence exactly once, and leave a side empty when a sentence has no counterpart.
+
+Source sentences:
+${sources.map((sentence, index) => `${index + 1}. ${sentence}`).join('\n')}
+
+Target sentences:
+${targets.map((sentence, index) => `${index + 1}. ${sentence}`).join('\n')}`;
+
+    try {
+      const answer = await provider.generateJson(options.providerSettings, options.modelName, prompt, ALIGNMENT_SCHEMA);
+      const llmPairs = readLlmPairs(answer, sources.length, targets.length);
+      if (llmPairs) {
+        replacements.set(start, {
+          end,
+          pairs: llmPairs.map(pair => ({
+            source: pair.source.map(index => sources[index - 1]),
+            target: pair.target.map(index => targets[index - 1]),
+            cost: 0,
+            // One-sided pairs still need a human decision
+            needsReview: pair.source.length === 0 || pair.target.length === 0
+          }))
+        });
+      } else {
+        console.warn(`Model alignment for region ${w + 1} was inconsistent, keeping length-based alignment`);
+      }
+    } catch (error) {
+      console.error(`Model alignment for region ${w + 1} failed:`, error);
+    }
+
+    options.onProgress?.(w + 1, windows.length);
+  }
+
+  const refined: AlignedPair[] = [];
+  for (let index = 0; index < pairs.length; index++) {
+    const replacement = replacements.get(index);
+    if (replacement) {
+      refined.push(...replacement.pairs);
+      index = replacement.end - 1;
+    } else {
+      refined.push(pairs[index]);
+    }
+  }
+  return refined;
+};
+
+/**
+ * Join two neighbouring pairs into one
+ */
+export const mergeAlignedPairs = (first: AlignedPair, second: AlignedPair): AlignedPair => ({
+  source: [...first.source, ...second.source],
+  target: [...first.target, ...second.target],
+  cost: 0,
+  needsReview: false
+});
+
+/**
+ * Convert reviewed pairs into TmxData. Pairs with an empty side are left out.
+ */
+export const alignedPairsToTmxData = (
+  pairs: AlignedPair[],
+  sourceLanguageCode: string,
+  targetLanguageCode: string,
+  documentName: string
+): TmxData => {
+  const sourceLanguage = normalizeLanguageTag(sourceLanguageCode);
+  const targetLanguage = normalizeLanguageTag(targetLanguageCode);
+  const multilingualUnits: MultilingualUnit[] = [];
+
+  pairs.forEach((pair, index) => {
+    const source = pair.source.join(' ');
+    const target = pair.target.join(' ');
+    if (!source || !target) return;
+
+    multilingualUnits.push({
+      segments: { [sourceLanguage]: source, [targetLanguage]: target },
+      taggedSegments: {
+        [sourceLanguage]: createTextSegment(source),
+        [targetLanguage]: createTextSegment(target)
+      },
+      metadata: {
+        tuid: String(index + 1),
+        props: [
+          { type: 'file', value: documentName },
+          { type: 'alignment', value: `${pair.source.length}-${pair.target.length}` }
+        ],
+        notes: []
+      }
+    });
+  });
+
+  if (multilingualUnits.length === 0) {
+    throw new Error("No aligned sentence pairs to use");
+  }
+
+  return buildTmxData(sourceLanguage, [targetLanguage], multilingualUnits);
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMapping, parseDelimitedText, readSpreadsheetFile, spreadsheetToTmxData, suggestColumnMapping } from './spreadsheetParser';
+
+const makeFile = (content: string, name = 'terms.csv') => new File([content], name);
+
+const mapping: ColumnMapping = {
+  sheetIndex: 0,
+  hasHeaderRow: true,
+  sourceColumn: 0,
+  targetColumn: 1,
+  metadataColumns: [],
+  sourceLanguage: 'en',
+  targetLanguage: 'de'
+};
+
+describe('parseDelimitedText', () => {
+  it.each([
+    ['a delimiter inside quotes', '"Save, then close",Speichern', [['Save, then close', 'Speichern']]],
+    ['doubled quotes', '"Say ""hi""",Hallo', [['Say "hi"', 'Hallo']]],
+    ['a line break inside quotes', '"Line one\nline two",Zeile', [['Line one\nline two', 'Zeile']]],
+    ['CRLF line ends', 'a,b\r\nc,d\r\n', [['a', 'b'], ['c', 'd']]],
+    ['a byte order mark', '\ufeffa,b', [['a', 'b']]],
+    ['empty cells', 'a,,c\n,,', [['a', '', 'c']]],
+    ['quotes in the middle of a cell', 'say "hi",b', [['say "hi"', 'b']]]
+  ])('reads %s', (_, text, rows) => {
+    expect(parseDelimitedText(text, ',').rows).toEqual(rows);
+  });
+
+  it('leaves out blank lines but keeps the record number of every row', () => {
+    expect(parseDelimitedText('en,de\n\nSave,Speichern\n , \nOpen,Öffnen\n', ',')).toEqual({
+      rows: [['en', 'de'], ['Save', 'Speichern'], ['Open', 'Öffnen']],
+      rowNumbers: [1, 3, 5]
+    });
+  });
+});
+
+describe('readSpreadsheetFile', () => {
+  it.each([
+    ['commas', 'terms.csv', 'en,de,note\nSave,Speichern,toolbar'],
+    ['semicolons', 'terms.csv', 'en;de;note\nSave;Speichern;toolbar'],
+    ['tabs', 'terms.csv', 'en\tde\tnote\nSave\tSpeichern\ttoolbar'],
+    ['pipes', 'terms.csv', 'en|de|note\nSave|Speichern|toolbar'],
+    ['tabs in a TSV file', 'terms.tsv', 'en\tde,DE\tnote\nSave\tSpeichern\ttoolbar']
+  ])('detects %s as delimiter', async (_, fileName, content) => {
+    const data = await readSpreadsheetFile(makeFile(content, fileName));
+
+    expect(data.sheets[0].rows[1]).toEqual(['Save', 'Speichern', 'toolbar']);
+  });
+
+  it('rejects an empty file with its own reason', async () => {
+    await expect(readSpreadsheetFile(makeFile('\n\n'))).rejects.toThrow("The file contains no data");
+  });
+});
+
+describe('spreadsheetToTmxData', () => {
+  it('numbers tuids by spreadsheet row and keeps metadata columns as props', async () => {
+    const data = await readSpreadsheetFile(makeFile('en,de,domain\n\nSave,Speichern,UI\n,Leer,UI\nOpen,Öffnen,\n'));
+
+    const tmxData = spreadsheetToTmxData(data, { ...mapping, metadataColumns: [2] });
+
+    expect(tmxData.translationUnits.map(unit => [unit.metadata?.tuid, unit.source, unit.metadata?.props])).toEqual([
+      ['row 3', 'Save', [{ type: 'domain', value: 'UI' }]],
+      ['row 5', 'Open', []]
+    ]);
+  });
+
+  it('suggests the language columns named in the header row', async () => {
+    const data = await readSpreadsheetFile(makeFile('Note,en_US,de-de\nToolbar,Save,Speichern'));
+
+    expect(suggestColumnMapping(data.sheets[0])).toMatchObject({
+      hasHeaderRow: true,
+      sourceColumn: 1,
+      targetColumn: 2,
+      sourceLanguage: 'en-US',
+      targetLanguage: 'de-DE'
+    });
+  });
+
+  it.each([
+    ['the same column', { sourceColumn: 1 }, "Source and target must be different columns"],
+    ['the same language', { sourceLanguage: 'en_us', targetLanguage: 'en-US' }, "Source and target must have different language codes"],
+    ['no language', { targetLanguage: '' }, "Source and target language codes are required"]
+  ])('rejects a mapping with %s', async (_, change, message) => {
+    const data = await readSpreadsheetFile(makeFile('en,de\nSave,Speichern'));
+
+    expect(() => spreadsheetToTmxData(data, { ...mapping, ...change })).toThrow(message);
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Utility functions for reading bilingual CSV, TSV and Excel (XLSX) files
+ */
+import JSZip from 'jszip';
+import { MultilingualUnit, TmxData, TuProp, buildTmxData } from './tmxParser';
+import { createTextSegment } from './segmentMarkup';
+import { FileContentError, getFileExtension } from './fileParser';
+import { isLanguageCode, normalizeLanguageTag } from './languageCodes';
+import { readFileText } from './encoding';
+
+export interface SpreadsheetSheet {
+  name: string;
+  // Rows with at least one filled cell
+  rows: string[][];
+  // Row number of each row in the spreadsheet, counting the blank rows that were left out
+  rowNumbers: number[];
+}
+
+export interface SpreadsheetData {
+  fileName: string;
+  sheets: SpreadsheetSheet[];
+}
+
+/**
+ * How the columns of a sheet map onto translation units
+ */
+export interface ColumnMapping {
+  sheetIndex: number;
+  hasHeaderRow: boolean;
+  sourceColumn: number;
+  targetColumn: number;
+  // Columns kept as TU props, named after their header (or "Column N")
+  metadataColumns: number[];
+  // Column holding a unique id for each row, used as tuid
+  idColumn?: number;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+const isBlankRow = (cells: string[]): boolean => cells.every(cell => cell.trim() === "");
+
+/**
+ * Parse delimited text following RFC 4180 quoting rules. Blank lines are left out of the rows.
+ */
+export const parseDelimitedText = (text: string, delimiter: string): Pick<SpreadsheetSheet, 'rows' | 'rowNumbers'> => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left in the text
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines, keeping the record number of the others
+  const rowNumbers = rows.map((_, index) => index + 1).filter(rowNumber => !isBlankRow(rows[rowNumber - 1]));
+  return { rows: rowNumbers.map(rowNumber => rows[rowNumber - 1]), rowNumbers };
+};
+
+/**
+ * Guess the delimiter of a CSV file from its first line
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+};
+
+/**
+ * Convert an Excel column reference such as "AB" to a zero-based index
+ */
+const columnIndexFromReference = (reference: string): number => {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const parseXml = (content: string): Document => new DOMParser().parseFromString(content, "text/xml");
+
+const elementsByLocalName = (parent: Document | Element, localName: string): Element[] => {
+  return Array.from(parent.querySelectorAll('*')).filter(element => element.localName === localName);
+};
+
+/**
+ * Read the sheets of an XLSX workbook. Cell values are read as displayed text; formulas use their cached value.
+ */
+const readXlsxSheets = async (file: File): Promise<SpreadsheetSheet[]> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+  const readEntry = async (path: string): Promise<string | null> => {
+    const entry = zip.file(path);
+    return entry ? entry.async('string') : null;
+  };
+
+  const workbookXml = await readEntry('xl/workbook.xml');
+  if (!workbookXml) {
+    throw new FileContentError("Workbook not found in XLSX file");
+  }
+
+  // Shared strings table; rich text entries are split into runs
+  const sharedStringsXml = await readEntry('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? elementsByLocalName(parseXml(sharedStringsXml), 'si').map(si =>
+        elementsByLocalName(si, 't')
+          .filter(t => t.parentElement?.localName !== 'rPh') // Skip phonetic guides
+          .map(t => t.textContent || "")
+          .join("")
+      )
+    : [];
+
+  // Sheet names point to their XML part through the workbook relationships
+  const relsXml = await readEntry('xl/_rels/workbook.xml.rels');
+  const targets = new Map<string, string>();
+  if (relsXml) {
+    elementsByLocalName(parseXml(relsXml), 'Relationship').forEach(rel => {
+      targets.set(rel.getAttribute('Id') || "", rel.getAttribute('Target') || "");
+    });
+  }
+
+  const sheets: SpreadsheetSheet[] = [];
+  const sheetElements = elementsByLocalName(parseXml(workbookXml), 'sheet');
+
+  for (let i = 0; i < sheetElements.length; i++) {
+    const sheetElement = sheetElements[i];
+    const relationId = sheetElement.getAttribute('r:id') || "";
+    const target = targets.get(relationId) || `worksheets/sheet${i + 1}.xml`;
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    const sheetXml = await readEntry(path);
+    if (!sheetXml) continue;
+
+    const rows: string[][] = [];
+    const rowNumbers: number[] = [];
+    let rowNumber = 0;
+    elementsByLocalName(parseXml(sheetXml), 'row').forEach(rowElement => {
+      // Empty rows are usually missing from the sheet, so the number comes from the row's reference
+      rowNumber = parseInt(rowElement.getAttribute('r') || "") || rowNumber + 1;
+      const row: string[] = [];
+      elementsByLocalName(rowElement, 'c').forEach((cell, cellIndex) => {
+        const reference = cell.getAttribute('r');
+        const column = reference ? columnIndexFromReference(reference) : cellIndex;
+        const type = cell.getAttribute('t');
+        let value = "";
+
+        if (type === 'inlineStr') {
+          value = elementsByLocalName(cell, 't').map(t => t.textContent || "").join("");
+        } else {
+          const rawValue = elementsByLocalName(cell, 'v')[0]?.textContent || "";
+          value = type === 's' ? sharedStrings[parseInt(rawValue)] || "" : rawValue;
+        }
+
+        while (row.length < column) row.push("");
+        row[column] = value;
+      });
+      if (!isBlankRow(row)) {
+        rows.push(row);
+        rowNumbers.push(rowNumber);
+      }
+    });
+
+    sheets.push({ name: sheetElement.getAttribute('name') || `Sheet ${i + 1}`, rows, rowNumbers });
+  }
+
+  return sheets;
+};
+
+/**
+ * Read a CSV, TSV or XLSX file into rows of cells, ready for column mapping.
+ * The encoding only applies to CSV and TSV; XLSX is always UTF-8.
+ */
+export const readSpreadsheetFile = async (file: File, encoding?: string): Promise<SpreadsheetData> => {
+  try {
+    const extension = getFileExtension(file.name);
+    let sheets: SpreadsheetSheet[];
+
+    if (extension === '.xlsx') {
+      sheets = await readXlsxSheets(file);
+    } else {
+      const text = await readFileText(file, encoding);
+      const delimiter = extension === '.tsv' ? '\t' : detectDelimiter(text);
+      console.log("Reading delimited file with delimiter:", JSON.stringify(delimiter));
+      sheets = [{ name: file.name, ...parseDelimitedText(text, delimiter) }];
+    }
+
+    sheets = sheets.filter(sheet => sheet.rows.length > 0);
+    if (sheets.length === 0) {
+      throw new FileContentError("The file contains no data");
+    }
+
+    console.log("Spreadsheet loaded:", sheets.map(sheet => `${sheet.name} (${sheet.rows.length} rows)`).join(', '));
+    return { fileName: file.name, sheets };
+  } catch (error) {
+    console.error('Error reading spreadsheet file:', error);
+    if (error instanceof FileContentError) throw error;
+    throw new Error('Failed to read spreadsheet file. Please ensure it is a valid CSV, TSV or XLSX file, or choose its encoding manually if the text is garbled.');
+  }
+};
+
+/**
+ * Column names of a sheet: header cells when the first row is a header, otherwise "Column N"
+ */
+export const getColumnNames = (sheet: SpreadsheetSheet, hasHeaderRow: boolean): string[] => {
+  // Spreading every row into Math.max overflows the stack on large sheets
+  const columnCount = sheet.rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return Array.from({ length: columnCount }, (_, index) => {
+    const header = hasHeaderRow ? (sheet.rows[0][index] || "").trim() : "";
+    return header || `Column ${index + 1}`;
+  });
+};
+
+/**
+ * Propose a mapping, recognising language codes or common names in the header row
+ */
+export const suggestColumnMapping = (sheet: SpreadsheetSheet): ColumnMapping => {
+  const header = sheet.rows[0] || [];
+  const languageColumns = header
+    .map((cell, index) => ({ cell: cell.trim(), index }))
+    .filter(({ cell }) => isLanguageCode(cell));
+  const findColumn = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell.trim()));
+
+  const hasHeaderRow = languageColumns.length >= 2 || findColumn(/^(source|target)\b/i) !== -1;
+  const sourceColumn = languageColumns[0]?.index ?? Math.max(findColumn(/^source\b/i), 0);
+  const targetColumn = languageColumns[1]?.index ?? (findColumn(/^target\b/i) !== -1 ? findColumn(/^target\b/i) : 1);
+
+  return {
+    sheetIndex: 0,
+    hasHeaderRow,
+    sourceColumn,
+    targetColumn,
+    metadataColumns: [],
+    sourceLanguage: normalizeLanguageTag(languageColumns[0]?.cell || ""),
+    targetLanguage: normalizeLanguageTag(languageColumns[1]?.cell || "")
+  };
+};
+
+/**
+ * Convert mapped spreadsheet rows into TmxData so they go through the same pipeline as a TMX file
+ */
+export const spreadsheetToTmxData = (data: SpreadsheetData, mapping: ColumnMapping): TmxData => {
+  const sheet = data.sheets[mapping.sheetIndex];
+  if (!sheet) {
+    throw new Error("Selected sheet not found");
+  }
+  if (!mapping.sourceLanguage || !mapping.targetLanguage) {
+    throw new Error("Source and target language codes are required");
+  }
+  if (mapping.sourceColumn === mapping.targetColumn) {
+    throw new Error("Source and target must be different columns");
+  }
+  const sourceLanguage = normalizeLanguageTag(mapping.sourceLanguage);
+  const targetLanguage = normalizeLanguageTag(mapping.targetLanguage);
+  if (sourceLanguage === targetLanguage) {
+    throw new Error("Source and target must have different language codes");
+  }
+
+  const columnNames = getColumnNames(sheet, mapping.hasHeaderRow);
+  const firstRow = mapping.hasHeaderRow ? 1 : 0;
+  const rows = sheet.rows.slice(firstRow);
+  const multilingualUnits: MultilingualUnit[] = [];
+
+  rows.forEach((row, index) => {
+    const source = (row[mapping.sourceColumn] || "").trim();
+    const target = (row[mapping.targetColumn] || "").trim();
+    if (!source || !target) return;
+
+    const props: TuProp[] = mapping.metadataColumns
+      .map(column => ({ type: columnNames[column], value: (row[column] || "").trim() }))
+      .filter(prop => prop.value);
+    const rowNumber = sheet.rowNumbers[firstRow + index];
+
+    multilingualUnits.push({
+      segments: { [sourceLanguage]: source, [targetLanguage]: target },
+      taggedSegments: {
+        [sourceLanguage]: createTextSegment(source),
+        [targetLanguage]: createTextSegment(target)
+      },
+      metadata: {
+        tuid: mapping.idColumn !== undefined ? (row[mapping.idColumn] || "").trim() || undefined : `row ${rowNumber}`,
+        props,
+        notes: []
+      }
+    });
+  });
+
+  if (multilingualUnits.length === 0) {
+    throw new Error("No rows with both source and target text found");
+  }
+
+  console.log("Spreadsheet converted:", multilingualUnits.length, "translation units");
+  return buildTmxData(sourceLanguage, [targetLanguage], multilingualUnits);
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { parseTmxFile, selectLanguagePair } from './tmxParser';
+import { renderSegmentText } from './segmentMarkup';
+import { createValidationReport } from './validationReport';
+
+const makeFile = (content: string) => new File([content], 'memory.tmx');
+
+const tmx = (body: string, srclang = 'en-US') => `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header srclang="${srclang}" datatype="plaintext" segtype="sentence" adminlang="en" o-tmf="test" creationtool="test" creationtoolversion="1"/>
+  <body>${body}</body>
+</tmx>`;
+
+const tu = (segments: Record<string, string>, attributes = "") => `
+    <tu${attributes}>${Object.entries(segments).map(([lang, seg]) => `<tuv xml:lang="${lang}"><seg>${seg}</seg></tuv>`).join("")}</tu>`;
+
+describe('parseTmxFile', () => {
+  it('collects every target language and selects one pair at a time', async () => {
+    const data = await parseTmxFile(makeFile(tmx(
+      tu({ 'en-US': "Save", 'de-DE': "Speichern", 'fr-FR': "Enregistrer" }) +
+      tu({ 'en-US': "Open", 'fr-FR': "Ouvrir" })
+    )));
+
+    expect(data.targetLanguages).toEqual(['de-DE', 'fr-FR']);
+    expect(data.translationUnits.map(unit => unit.target)).toEqual(['Speichern']);
+    expect(selectLanguagePair(data, 'fr-FR').translationUnits.map(unit => unit.target)).toEqual(['Enregistrer', 'Ouvrir']);
+  });
+
+  it.each([
+    ['paired bpt/ept codes', 'Click <bpt i="1">&lt;b&gt;</bpt>Save<ept i="1">&lt;/b&gt;</ept> now', 'Click Save now', 'Click {1}Save{/1} now'],
+    ['a standalone ph code', 'Page<ph x="1">&lt;br/&gt;</ph> one', 'Page one', 'Page{1/} one'],
+    ['a hi wrapper', 'Press <hi type="bold">Enter</hi>', 'Press Enter', 'Press {1}Enter{/1}']
+  ])('keeps %s apart from the segment text', async (_, seg, text, placeholders) => {
+    const data = await parseTmxFile(makeFile(tmx(tu({ 'en-US': seg, 'de-DE': "Übersetzung" }))));
+    const unit = data.translationUnits[0];
+
+    expect(unit.source).toBe(text);
+    expect(renderSegmentText(unit.sourceSegment!, 'placeholder')).toBe(placeholders);
+  });
+
+  it('keeps the tuid, dates, users, props and notes of a unit', async () => {
+    const content = tmx(`
+    <tu tuid="42" creationdate="20240105T101500Z" creationid="anna" changeid="ben">
+      <prop type="x-domain">Legal</prop>
+      <note>Checked by the client</note>
+      <tuv xml:lang="en-US"><prop type="x-origin">MT</prop><seg>Contract</seg></tuv>
+      <tuv xml:lang="de-DE"><seg>Vertrag</seg></tuv>
+    </tu>`);
+
+    const data = await parseTmxFile(makeFile(content));
+
+    expect(data.translationUnits[0].metadata).toMatchObject({
+      tuid: '42',
+      creationDate: '20240105T101500Z',
+      creationId: 'anna',
+      changeId: 'ben',
+      props: [{ type: 'x-domain', value: 'Legal' }, { type: 'x-origin', value: 'MT' }],
+      notes: ['Checked by the client']
+    });
+  });
+
+  it('counts a source segment tagged with another variant of the source language', async () => {
+    const data = await parseTmxFile(makeFile(tmx(tu({ 'EN-gb': "Colour", 'de-DE': "Farbe" }))));
+
+    expect(data.translationUnits.map(unit => [unit.source, unit.target])).toEqual([['Colour', 'Farbe']]);
+  });
+
+  it('skips units with problems and records them in the report', async () => {
+    const report = createValidationReport('memory.tmx');
+    const content = tmx(
+      tu({ 'en-US': "Save", 'de-DE': "Speichern" }, ' tuid="ok"') +
+      tu({ 'en-US': "Open" }, ' tuid="single"') +
+      tu({ 'de-DE': "Schließen" }, ' tuid="no-source"') +
+      tu({ 'en-US': "Print", 'de-DE': "" }, ' tuid="empty"')
+    );
+
+    const data = await parseTmxFile(makeFile(content), { report });
+
+    expect(data.translationUnits.map(unit => unit.metadata?.tuid)).toEqual(['ok']);
+    expect(report.counts).toEqual({ 'single-tuv': 2, 'missing-source': 1, 'empty-segment': 1 });
+    expect(report.skippedUnits).toBe(3);
+  });
+
+  it.each([
+    ['no srclang', ""],
+    ['srclang="*all*"', '*all*']
+  ])('takes the language found in the most units as source when the header has %s', async (_, srclang) => {
+    const report = createValidationReport('memory.tmx');
+    const content = tmx(
+      tu({ 'de-DE': "Speichern", 'en-US': "Save" }) +
+      tu({ 'fr-FR': "Ouvrir", 'en-US': "Open" }),
+      srclang
+    );
+
+    const data = await parseTmxFile(makeFile(content), { report });
+
+    expect(data.sourceLanguage).toBe('en-US');
+    expect(data.targetLanguages).toEqual(['de-DE', 'fr-FR']);
+    expect(report.issues).toHaveLength(1);
+  });
+
+  it.each([
+    ['no translation units', tmx("", ""), "The file contains no translation units"],
+    ['only source segments', tmx(tu({ 'en-US': "Save" })), "No target language found: every unit only has en-US segments"],
+    ['broken XML before the first unit', '<tmx version="1.4"><header srclang="en"/><body><tu><tuv xml:lang="en"><seg>a</tuv>', /^Failed to parse TMX file\. The file is not well-formed XML/]
+  ])('rejects a file with %s', async (_, content, message) => {
+    await expect(parseTmxFile(makeFile(content))).rejects.toThrow(message);
+  });
+});
@@ -2,126 +2,542 @@
 /**
  * Utility functions for parsing TMX files
  */
+import { Segment, SegmentBuilder, createSegmentBuilder, createTextSegment, segmentToPlainText } from './segmentMarkup';
+import { XmlSyntaxError, createXmlStreamParser } from './xmlStreamParser';
+import { resolveEncoding } from './encoding';
+import { ValidationIssue, ValidationReport, addValidationIssue, createValidationReport } from './validationReport';
+import { LanguageGrouping, groupLanguageTag, isSameLanguage, normalizeLanguageTag } from './languageCodes';
+
+export interface TranslationUnit {
+  // Clean segment text with inline codes removed
+  source: string;
+  target: string;
+  // Original segments including inline codes, used for prompts and concordance display
+  sourceSegment?: Segment;
+  targetSegment?: Segment;
+  metadata?: TuMetadata;
+}
+
+export interface TuProp {
+  type: string;
+  value: string;
+}
+
+/**
+ * Administrative data of a TMX <tu>. Props and notes of its <tuv> elements are included.
+ * Readers for other formats map their unit ids, states and comments onto the same fields.
+ */
+export interface TuMetadata {
+  tuid?: string;
+  // Workflow state of the translation, e.g. XLIFF "translated" or "final"
+  state?: string;
+  // Dates are kept in TMX format (YYYYMMDDThhmmssZ); see parseTmxDate
+  creationDate?: string;
+  changeDate?: string;
+  creationId?: string;
+  changeId?: string;
+  props: TuProp[];
+  notes: string[];
+  // Name of the uploaded file the unit came from, set when several files are uploaded together
+  sourceFile?: string;
+}
+
+/**
+ * A translation unit with the segment text of every language it contains, keyed by xml:lang
+ */
+export interface MultilingualUnit {
+  segments: Record<string, string>;
+  taggedSegments: Record<string, Segment>;
+  metadata: TuMetadata;
+}
 
 export interface TmxData {
   sourceLanguage: string;
+  // The currently selected target language; translationUnits holds the pairs for it
   targetLanguage: string;
-  translationUnits: Array<{
-    source: string;
-    target: string;
-  }>;
+  // Every non-source language found in the file, in order of first appearance
+  targetLanguages: string[];
+  translationUnits: TranslationUnit[];
+  multilingualUnits: MultilingualUnit[];
 }
 
+export interface TmxParseOptions {
+  // Number of translation units collected before onBatch is called
+  batchSize?: number;
+  onBatch?: (units: MultilingualUnit[]) => void;
+  onProgress?: (bytesRead: number, totalBytes: number) => void;
+  // Character encoding label; detected from the byte order mark or XML declaration when omitted or "auto"
+  encoding?: string;
+  // Collects the problems found while reading; units with problems are skipped rather than failing the file
+  report?: ValidationReport;
+  // Whether regional variants become separate languages; applied by parseBilingualFile to every format
+  languageGrouping?: LanguageGrouping;
+}
+
+// Where a translation unit starts, for validation issues
+type UnitLocation = Pick<ValidationIssue, 'line' | 'tuIndex' | 'tuid'>;
+
 /**
- * Parse a TMX file into a structured format
+ * Stream a TMX file through an incremental parser, emitting translation units in batches.
+ * The document is never held in memory as a whole, so multi-hundred-megabyte TMs can be read.
+ * Problems are recorded in options.report; malformed XML stops reading but keeps the units read before it.
+ * Returns the source language and every target language found.
  */
-export const parseTmxFile = async (file: File): Promise<TmxData> => {
-  try {
-    // Read the file content as UTF-8 text
-    const fileContent = await readFileAsText(file);
-    console.log("TMX file content loaded, size:", fileContent.length);
-    
-    // Create a DOM parser and parse the TMX content
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(fileContent, "text/xml");
-    
-    // Check for parsing errors
-    const parserError = xmlDoc.querySelector("parsererror");
-    if (parserError) {
-      console.error("XML parse error:", parserError.textContent);
-      throw new Error("Invalid XML format in TMX file");
+export const streamTmxFile = async (
+  file: File,
+  options: TmxParseOptions = {}
+): Promise<{ sourceLanguage: string; targetLanguages: string[]; unitCount: number }> => {
+  const { batchSize = 500, onBatch, onProgress } = options;
+  const report = options.report || createValidationReport(file.name);
+  
+  let sourceLanguage = "";
+  // Why the source language has to be chosen from the units, if it does
+  let sourceLanguageIssue: 'missing-srclang' | 'srclang-all' = 'missing-srclang';
+  let headerLine: number | undefined;
+  const targetLanguages: string[] = [];
+  let unitCount = 0;
+  let batch: MultilingualUnit[] = [];
+  // Units held back until the end of the file when the header names no single source language
+  const deferredUnits: Array<{ unit: MultilingualUnit; location: UnitLocation }> = [];
+  const languageCounts = new Map<string, number>();
+  
+  // State of the translation unit currently being read
+  let currentUnit: MultilingualUnit | null = null;
+  let tuIndex = 0;
+  let tuLine = 0;
+  let currentLanguage: string | null = null;
+  let segmentBuilder: SegmentBuilder | null = null;
+  let segmentDepth = 0;
+  let segmentLine = 0;
+  // Text of the <prop> or <note> currently being read
+  let metadataElement: { name: string; type: string; text: string } | null = null;
+  
+  const unitLocation = (line: number): UnitLocation => ({ line, tuIndex, tuid: currentUnit?.metadata.tuid });
+  
+  const flushBatch = () => {
+    if (batch.length === 0) return;
+    onBatch?.(batch);
+    batch = [];
+  };
+  
+  const acceptUnit = (unit: MultilingualUnit, location: UnitLocation) => {
+    // A source segment tagged with another variant of the source language (en-GB for srclang en-US) still counts
+    if (!unit.segments[sourceLanguage]) {
+      const variant = Object.keys(unit.segments).find(lang => isSameLanguage(lang, sourceLanguage));
+      if (variant) {
+        unit.segments[sourceLanguage] = unit.segments[variant];
+        unit.taggedSegments[sourceLanguage] = unit.taggedSegments[variant];
+        delete unit.segments[variant];
+        delete unit.taggedSegments[variant];
+      }
     }
     
-    // Extract source language from header
-    const header = xmlDoc.querySelector("header");
-    const sourceLanguage = header?.getAttribute("srclang") || "";
-    console.log("Source language from TMX:", sourceLanguage);
+    const languages = Object.keys(unit.segments);
+    languages.forEach(lang => {
+      if (lang !== sourceLanguage && !targetLanguages.includes(lang)) {
+        targetLanguages.push(lang);
+        console.log("Target language detected:", lang);
+      }
+    });
     
-    if (!sourceLanguage) {
-      throw new Error("Source language not found in TMX header");
+    // Keep only units that have a source segment and at least one translation
+    if (!unit.segments[sourceLanguage]) {
+      addValidationIssue(report, {
+        severity: 'warning',
+        code: 'missing-source',
+        message: `No ${sourceLanguage} segment with text; the unit is skipped`,
+        ...location
+      }, true);
+    } else if (languages.length < 2) {
+      addValidationIssue(report, {
+        severity: 'warning',
+        code: 'single-tuv',
+        message: `Only the ${sourceLanguage} segment and no translation; the unit is skipped`,
+        ...location
+      }, true);
+    } else {
+      if (unitCount < 5) console.log(`Processing TU #${unitCount + 1}`);
+      batch.push(unit);
+      unitCount++;
+      if (batch.length >= batchSize) flushBatch();
+    }
+  };
+  
+  const finishUnit = (unit: MultilingualUnit) => {
+    if (sourceLanguage) {
+      acceptUnit(unit, unitLocation(tuLine));
+      return;
     }
     
-    // Extract translation units
-    const tuElements = xmlDoc.querySelectorAll("tu");
-    console.log("Number of translation units found:", tuElements.length);
+    Object.keys(unit.segments).forEach(lang => {
+      languageCounts.set(lang, (languageCounts.get(lang) || 0) + 1);
+    });
+    deferredUnits.push({ unit, location: unitLocation(tuLine) });
+  };
+  
+  // Without a single srclang, the language found in the most units is taken as source
+  const resolveDeferredUnits = () => {
+    if (deferredUnits.length === 0) return;
     
-    const translationUnits: { source: string; target: string }[] = [];
-    let targetLanguage = "";
+    let mostUnits = 0;
+    languageCounts.forEach((count, lang) => {
+      if (count > mostUnits) {
+        sourceLanguage = lang;
+        mostUnits = count;
+      }
+    });
+    addValidationIssue(report, {
+      severity: sourceLanguageIssue === 'missing-srclang' ? 'error' : 'warning',
+      code: sourceLanguageIssue,
+      message: sourceLanguageIssue === 'missing-srclang'
+        ? `The header has no srclang attribute; ${sourceLanguage}, the language found in the most units, is used as source language`
+        : `srclang="*all*" allows any source language; ${sourceLanguage}, the language found in the most units, is used`,
+      line: headerLine
+    });
+    console.log("Source language chosen from the units:", sourceLanguage);
     
-    tuElements.forEach((tu, index) => {
-      if (index < 5) console.log(`Processing TU #${index + 1}`);
-      const tuvs = tu.querySelectorAll("tuv");
-      let sourceText = "";
-      let targetText = "";
+    deferredUnits.forEach(({ unit, location }) => acceptUnit(unit, location));
+    deferredUnits.length = 0;
+  };
+  
+  const parser = createXmlStreamParser({
+    onOpenTag: (name, attributes, line) => {
+      if (segmentBuilder) {
+        segmentDepth++;
+        segmentBuilder.openTag(name, attributes);
+        return;
+      }
       
-      tuvs.forEach((tuv) => {
-        const lang = tuv.getAttribute("xml:lang") || tuv.getAttribute("lang");
-        const segElement = tuv.querySelector("seg");
-        const segText = segElement ? segElement.textContent || "" : "";
-        
-        if (lang === sourceLanguage) {
-          sourceText = segText;
-        } else {
-          // Assuming the first non-source language is the target language
-          if (!targetLanguage) {
-            targetLanguage = lang || "";
-            console.log("Target language detected:", targetLanguage);
+      switch (name) {
+        case 'header':
+          headerLine = line;
+          if (attributes.srclang === '*all*') {
+            sourceLanguageIssue = 'srclang-all';
+          } else {
+            sourceLanguage = normalizeLanguageTag(attributes.srclang || "");
+          }
+          console.log("Source language from TMX:", attributes.srclang);
+          break;
+        case 'tu':
+          tuIndex++;
+          tuLine = line;
+          currentUnit = {
+            segments: {},
+            taggedSegments: {},
+            metadata: {
+              tuid: attributes.tuid,
+              creationDate: attributes.creationdate,
+              changeDate: attributes.changedate,
+              creationId: attributes.creationid,
+              changeId: attributes.changeid,
+              props: [],
+              notes: []
+            }
+          };
+          break;
+        case 'prop':
+        case 'note':
+          // Header props and notes describe the whole file, only unit-level ones are kept
+          if (currentUnit) {
+            metadataElement = { name, type: attributes.type || "", text: "" };
           }
-          
-          if (lang === targetLanguage) {
-            targetText = segText;
+          break;
+        case 'tuv':
+          currentLanguage = normalizeLanguageTag(attributes['xml:lang'] || attributes.lang || "") || null;
+          if (currentUnit && !currentLanguage) {
+            addValidationIssue(report, {
+              severity: 'error',
+              code: 'missing-lang',
+              message: "<tuv> without xml:lang attribute; its segment is ignored",
+              ...unitLocation(line)
+            });
+          }
+          break;
+        case 'seg':
+          if (currentUnit && currentLanguage) {
+            segmentBuilder = createSegmentBuilder();
+            segmentDepth = 0;
+            segmentLine = line;
+          }
+          break;
+      }
+    },
+    onCloseTag: (name) => {
+      if (segmentBuilder) {
+        if (segmentDepth > 0) {
+          segmentDepth--;
+          segmentBuilder.closeTag(name);
+          return;
+        }
+        
+        // End of <seg>: keep inline codes apart so formatting never leaks into the text sent to the model
+        const segment = segmentBuilder.finish();
+        const segText = segmentToPlainText(segment);
+        if (segText && currentUnit && currentLanguage) {
+          currentUnit.segments[currentLanguage] = segText;
+          currentUnit.taggedSegments[currentLanguage] = segment;
+        } else if (currentUnit && currentLanguage) {
+          addValidationIssue(report, {
+            severity: 'warning',
+            code: 'empty-segment',
+            message: `Empty ${currentLanguage} segment`,
+            ...unitLocation(segmentLine)
+          });
+        }
+        segmentBuilder = null;
+        return;
+      }
+      
+      if (metadataElement && name === metadataElement.name) {
+        const text = metadataElement.text.trim();
+        if (currentUnit && text) {
+          if (name === 'prop') {
+            currentUnit.metadata.props.push({ type: metadataElement.type, value: text });
+          } else {
+            currentUnit.metadata.notes.push(text);
           }
         }
-      });
+        metadataElement = null;
+      } else if (name === 'tuv') {
+        currentLanguage = null;
+      } else if (name === 'tu' && currentUnit) {
+        finishUnit(currentUnit);
+        currentUnit = null;
+      }
+    },
+    onText: (text) => {
+      if (segmentBuilder) {
+        segmentBuilder.text(text);
+      } else if (metadataElement) {
+        metadataElement.text += text;
+      }
+    }
+  });
+  
+  const reader = file.stream().getReader();
+  const encoding = await resolveEncoding(file, options.encoding);
+  console.log("Decoding TMX file as", encoding);
+  const decoder = new TextDecoder(encoding);
+  let bytesRead = 0;
+  
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
       
-      if (sourceText && targetText) {
-        translationUnits.push({
-          source: sourceText,
-          target: targetText
-        });
+      bytesRead += value.byteLength;
+      parser.write(decoder.decode(value, { stream: true }));
+      onProgress?.(bytesRead, file.size);
+    }
+    
+    parser.write(decoder.decode());
+    parser.close();
+  } catch (error) {
+    if (!(error instanceof XmlSyntaxError)) throw error;
+    
+    // Nothing after broken markup can be trusted; the complete units before it are kept
+    await reader.cancel();
+    addValidationIssue(report, {
+      severity: 'error',
+      code: 'malformed-xml',
+      message: unitCount + deferredUnits.length > 0
+        ? `${error.message}; reading stopped there, the ${unitCount + deferredUnits.length} units before it are kept`
+        : error.message,
+      line: error.line,
+      ...(currentUnit ? { tuIndex, tuid: currentUnit.metadata.tuid } : {})
+    });
+    onProgress?.(file.size, file.size);
+  }
+  resolveDeferredUnits();
+  flushBatch();
+  
+  if (report.errorCount + report.warningCount > 0) {
+    console.warn(`TMX validation: ${report.errorCount} errors, ${report.warningCount} warnings, ${report.skippedUnits} units skipped`);
+  }
+  
+  return { sourceLanguage, targetLanguages, unitCount };
+};
+
+/**
+ * Parse a TMX file into a structured format. Units with problems are skipped and recorded in
+ * options.report; the file only fails when no usable unit is left, with the reason as message.
+ */
+export const parseTmxFile = async (file: File, options: TmxParseOptions = {}): Promise<TmxData> => {
+  const report = options.report || createValidationReport(file.name);
+  
+  try {
+    console.log("Streaming TMX file, size:", file.size);
+    
+    const multilingualUnits: MultilingualUnit[] = [];
+    const { sourceLanguage, targetLanguages } = await streamTmxFile(file, {
+      ...options,
+      report,
+      onBatch: (units) => {
+        multilingualUnits.push(...units);
+        options.onBatch?.(units);
       }
     });
     
-    if (!targetLanguage) {
-      throw new Error("Target language not found in TMX file");
-    }
+    console.log("Number of translation units found:", multilingualUnits.length);
     
-    if (translationUnits.length === 0) {
-      throw new Error("No valid translation units found in TMX file");
+    if (multilingualUnits.length === 0) {
+      const malformed = report.issues.find(issue => issue.code === 'malformed-xml');
+      let message = "No translation unit has both a source segment and a translation";
+      if (malformed) {
+        message = `The file is not well-formed XML. ${malformed.message}`;
+      } else if (!sourceLanguage) {
+        message = "The file contains no translation units";
+      } else if (targetLanguages.length === 0) {
+        message = `No target language found: every unit only has ${sourceLanguage} segments`;
+      }
+      addValidationIssue(report, { severity: 'error', code: 'no-units', message });
+      throw new Error(message);
     }
     
     console.log("TMX parsing completed successfully:", {
       sourceLanguage,
-      targetLanguage,
-      translationUnits: translationUnits.length
+      targetLanguages,
+      translationUnits: multilingualUnits.length
     });
     
-    return {
-      sourceLanguage,
-      targetLanguage,
-      translationUnits
-    };
+    return buildTmxData(sourceLanguage, targetLanguages, multilingualUnits);
   } catch (error) {
     console.error('Error parsing TMX file:', error);
-    throw new Error('Failed to parse TMX file. Please ensure it is a valid TMX format in UTF-8 encoding.');
+    if (report.counts['no-units']) {
+      throw new Error(`Failed to parse TMX file. ${(error as Error).message}`);
+    }
+    throw new Error('Failed to parse TMX file. Please ensure it is a valid TMX format, or choose its encoding manually if the text is garbled.');
   }
 };
 
 /**
- * Read a file as text using FileReader
+ * Assemble TmxData from parsed units, selecting the first target language
+ */
+export const buildTmxData = (
+  sourceLanguage: string,
+  targetLanguages: string[],
+  multilingualUnits: MultilingualUnit[]
+): TmxData => {
+  const targetLanguage = targetLanguages[0];
+  return {
+    sourceLanguage,
+    targetLanguage,
+    targetLanguages,
+    translationUnits: getTranslationUnits(multilingualUnits, sourceLanguage, targetLanguage),
+    multilingualUnits
+  };
+};
+
+/**
+ * Assemble TmxData for one language pair from its source/target pairs, e.g. pairs saved earlier
  */
-const readFileAsText = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const result = event.target?.result as string;
-      console.log("File read complete, size:", result.length);
-      resolve(result);
-    };
-    reader.onerror = (error) => {
-      console.error("File read error:", error);
-      reject(new Error("Failed to read file. Please ensure it's a valid UTF-8 encoded TMX file."));
-    };
-    reader.readAsText(file, 'UTF-8'); // Explicitly specify UTF-8 encoding
+export const translationUnitsToTmxData = (
+  sourceLanguage: string,
+  targetLanguage: string,
+  units: TranslationUnit[]
+): TmxData => {
+  return buildTmxData(sourceLanguage, [targetLanguage], units.map(unit => ({
+    segments: { [sourceLanguage]: unit.source, [targetLanguage]: unit.target },
+    taggedSegments: {
+      [sourceLanguage]: unit.sourceSegment || createTextSegment(unit.source),
+      [targetLanguage]: unit.targetSegment || createTextSegment(unit.target)
+    },
+    metadata: unit.metadata || { props: [], notes: [] }
+  })));
+};
+
+/**
+ * Build the source/target pairs for one target language from the multilingual units
+ */
+const getTranslationUnits = (
+  multilingualUnits: MultilingualUnit[],
+  sourceLanguage: string,
+  targetLanguage: string
+): TranslationUnit[] => {
+  return multilingualUnits
+    .filter(unit => unit.segments[sourceLanguage] && unit.segments[targetLanguage])
+    .map(unit => ({
+      source: unit.segments[sourceLanguage],
+      target: unit.segments[targetLanguage],
+      sourceSegment: unit.taggedSegments[sourceLanguage],
+      targetSegment: unit.taggedSegments[targetLanguage],
+      metadata: unit.metadata
+    }));
+};
+
+/**
+ * Convert a TMX date (YYYYMMDDThhmmssZ) to a Date, or null when it is missing or malformed
+ */
+export const parseTmxDate = (value?: string): Date | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+};
+
+/**
+ * Prop values of a translation unit grouped by prop type
+ */
+export const groupProps = (props: TuProp[]): Record<string, string[]> => {
+  const grouped: Record<string, string[]> = {};
+  props.forEach(({ type, value }) => {
+    const key = type || "prop";
+    if (!grouped[key]) grouped[key] = [];
+    if (!grouped[key].includes(value)) grouped[key].push(value);
+  });
+  return grouped;
+};
+
+/**
+ * Regroup the languages of parsed data, e.g. merge en-US and en-GB targets into en.
+ * Where a unit has several variants of one language the first is kept. The source language
+ * is grouped too; targets that fall into the source language are dropped.
+ */
+export const groupLanguageVariants = (tmxData: TmxData, grouping: LanguageGrouping): TmxData => {
+  if (grouping === 'variant') return tmxData;
+  
+  const sourceLanguage = groupLanguageTag(tmxData.sourceLanguage, grouping);
+  const targetLanguages: string[] = [];
+  const multilingualUnits: MultilingualUnit[] = [];
+  
+  tmxData.multilingualUnits.forEach(unit => {
+    const grouped: MultilingualUnit = { segments: {}, taggedSegments: {}, metadata: unit.metadata };
+    // The source segment goes first so a target variant of the source language cannot replace it
+    const languages = [tmxData.sourceLanguage, ...Object.keys(unit.segments).filter(lang => lang !== tmxData.sourceLanguage)];
+    languages.forEach(lang => {
+      const group = groupLanguageTag(lang, grouping);
+      if (!unit.segments[lang] || grouped.segments[group]) return;
+      grouped.segments[group] = unit.segments[lang];
+      grouped.taggedSegments[group] = unit.taggedSegments[lang];
+      if (group !== sourceLanguage && !targetLanguages.includes(group)) targetLanguages.push(group);
+    });
+    if (Object.keys(grouped.segments).length > 1) multilingualUnits.push(grouped);
   });
+  
+  if (targetLanguages.length === 0) {
+    throw new Error(`Grouping by language leaves no target language other than ${sourceLanguage}`);
+  }
+  console.log("Languages grouped by base language:", sourceLanguage, "->", targetLanguages);
+  
+  return buildTmxData(sourceLanguage, targetLanguages, multilingualUnits);
+};
+
+/**
+ * Count the translation units available for a given target language
+ */
+export const countTranslationUnits = (tmxData: TmxData, targetLanguage: string): number => {
+  return tmxData.multilingualUnits.filter(unit =>
+    unit.segments[tmxData.sourceLanguage] && unit.segments[targetLanguage]
+  ).length;
+};
+
+/**
+ * Return a copy of the TMX data narrowed to a single source/target language pair
+ */
+export const selectLanguagePair = (tmxData: TmxData, targetLanguage: string): TmxData => {
+  return {
+    ...tmxData,
+    targetLanguage,
+    translationUnits: getTranslationUnits(tmxData.multilingualUnits, tmxData.sourceLanguage, targetLanguage)
+  };
 };
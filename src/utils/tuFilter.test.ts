@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { TranslationUnit, TuMetadata } from './tmxParser';
+import { DEFAULT_TU_FILTER_OPTIONS, TuFilterOptions, filterTranslationUnits } from './tuFilter';
+
+const unit = (source: string, target: string, metadata: Partial<TuMetadata> = {}): TranslationUnit => ({
+  source,
+  target,
+  metadata: { props: [], notes: [], ...metadata }
+});
+
+const NO_FILTERS: TuFilterOptions = {
+  propRules: [],
+  removeExactDuplicates: false,
+  removeNearDuplicates: false,
+  excludeNumericOnly: false
+};
+
+const keptSources = (units: TranslationUnit[], options: Partial<TuFilterOptions>) =>
+  filterTranslationUnits(units, { ...NO_FILTERS, ...options }).units.map(kept => kept.source);
+
+describe('filterTranslationUnits', () => {
+  it.each([
+    ['exact duplicates', { removeExactDuplicates: true }, [unit("Save", "Speichern"), unit("Save", "Speichern"), unit("Save", "Sichern")], ["Save", "Save"]],
+    ['near duplicates', { removeNearDuplicates: true }, [unit("Page 1 of 3", "Seite 1 von 3"), unit("page 2 of 7!", "Seite 2 von 7"), unit("Page", "Seite")], ["Page 1 of 3", "Page"]],
+    ['numeric-only sources', { excludeNumericOnly: true }, [unit("12.5 %", "12,5 %"), unit("(+49) 30-1234", "(+49) 30-1234"), unit("Version 2", "Version 2")], ["Version 2"]],
+    ['sources outside the length bounds', { minLength: 3, maxLength: 5 }, [unit("OK", "OK"), unit("Save", "Speichern"), unit("Settings", "Einstellungen")], ["Save"]]
+  ])('removes %s', (_, options, units, kept) => {
+    expect(keptSources(units, options)).toEqual(kept);
+  });
+
+  it('keeps units changed within the date range and units without a date', () => {
+    const units = [
+      unit("Old", "Alt", { changeDate: '20221231T235959Z' }),
+      unit("New", "Neu", { changeDate: '20230615T120000Z' }),
+      unit("Created", "Erstellt", { creationDate: '20230101T000000Z' }),
+      unit("Undated", "Ohne Datum")
+    ];
+
+    expect(keptSources(units, { changedAfter: '2023-01-01', changedBefore: '2023-12-31' })).toEqual(["New", "Created", "Undated"]);
+  });
+
+  it.each([
+    [
+      'include rules on one field as alternatives',
+      [{ field: 'x-client', value: 'acme', mode: 'include' }, { field: 'x-client', value: 'Globex', mode: 'include' }],
+      ["Acme", "Globex"]
+    ],
+    [
+      'include rules on different fields together',
+      [{ field: 'x-client', value: 'Acme', mode: 'include' }, { field: 'state', value: 'final', mode: 'include' }],
+      ["Acme"]
+    ],
+    [
+      'exclude rules before include rules',
+      [{ field: 'x-client', value: 'Acme', mode: 'include' }, { field: 'tuid', value: '1', mode: 'exclude' }],
+      []
+    ]
+  ] as const)('applies %s', (_, propRules, kept) => {
+    const units = [
+      unit("Acme", "Acme", { tuid: '1', state: 'final', props: [{ type: 'x-client', value: 'Acme' }] }),
+      unit("Globex", "Globex", { tuid: '2', props: [{ type: 'x-client', value: 'Globex' }] }),
+      unit("Initech", "Initech", { tuid: '3', state: 'final' })
+    ];
+
+    expect(keptSources(units, { propRules: [...propRules] })).toEqual(kept);
+  });
+
+  it('counts the units each filter removed', () => {
+    const units = [unit("Save", "Speichern"), unit("Save", "Speichern"), unit("42", "42"), unit("Open", "Öffnen")];
+
+    expect(filterTranslationUnits(units, DEFAULT_TU_FILTER_OPTIONS).removed).toEqual({
+      date: 0,
+      prop: 0,
+      length: 0,
+      numeric: 1,
+      duplicate: 1,
+      nearDuplicate: 0
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Filters that narrow down the translation units sent to the model
+ */
+import { TmxData, TranslationUnit, TuMetadata, parseTmxDate } from './tmxParser';
+
+// Fields that can be matched besides prop types
+export const ATTRIBUTE_FIELDS = ['tuid', 'state', 'creationid', 'changeid'] as const;
+
+export interface PropFilterRule {
+  // A prop type (e.g. "x-client") or one of ATTRIBUTE_FIELDS
+  field: string;
+  value: string;
+  mode: 'include' | 'exclude';
+}
+
+export interface TuFilterOptions {
+  // Inclusive bounds on changedate (falling back to creationdate), as YYYY-MM-DD
+  changedAfter?: string;
+  changedBefore?: string;
+  propRules: PropFilterRule[];
+  // Bounds on the source segment length in characters
+  minLength?: number;
+  maxLength?: number;
+  removeExactDuplicates: boolean;
+  // Duplicates that only differ in case, punctuation, digits or whitespace
+  removeNearDuplicates: boolean;
+  excludeNumericOnly: boolean;
+}
+
+export type TuFilterReason = 'date' | 'prop' | 'length' | 'numeric' | 'duplicate' | 'nearDuplicate';
+
+export interface TuFilterResult {
+  units: TranslationUnit[];
+  removed: Record<TuFilterReason, number>;
+}
+
+export const DEFAULT_TU_FILTER_OPTIONS: TuFilterOptions = {
+  propRules: [],
+  removeExactDuplicates: true,
+  removeNearDuplicates: false,
+  excludeNumericOnly: true
+};
+
+/**
+ * Whether any filter is switched on
+ */
+export const isFilterActive = (options: TuFilterOptions): boolean => {
+  return Boolean(
+    options.changedAfter ||
+    options.changedBefore ||
+    options.propRules.length > 0 ||
+    options.minLength ||
+    options.maxLength ||
+    options.removeExactDuplicates ||
+    options.removeNearDuplicates ||
+    options.excludeNumericOnly
+  );
+};
+
+const getFieldValues = (metadata: TuMetadata | undefined, field: string): string[] => {
+  if (!metadata) return [];
+  switch (field) {
+    case 'tuid':
+      return metadata.tuid ? [metadata.tuid] : [];
+    case 'state':
+      return metadata.state ? [metadata.state] : [];
+    case 'creationid':
+      return metadata.creationId ? [metadata.creationId] : [];
+    case 'changeid':
+      return metadata.changeId ? [metadata.changeId] : [];
+    default:
+      return metadata.props.filter(prop => prop.type === field).map(prop => prop.value);
+  }
+};
+
+/**
+ * Include rules on the same field are alternatives; rules on different fields must all match.
+ * A unit matching any exclude rule is dropped.
+ */
+const matchesPropRules = (metadata: TuMetadata | undefined, rules: PropFilterRule[]): boolean => {
+  const activeRules = rules.filter(rule => rule.field && rule.value.trim());
+  if (activeRules.length === 0) return true;
+
+  const matches = (rule: PropFilterRule) =>
+    getFieldValues(metadata, rule.field).some(value => value.toLowerCase() === rule.value.trim().toLowerCase());
+
+  if (activeRules.some(rule => rule.mode === 'exclude' && matches(rule))) return false;
+
+  const includeFields = new Set(activeRules.filter(rule => rule.mode === 'include').map(rule => rule.field));
+  return Array.from(includeFields).every(field =>
+    activeRules.some(rule => rule.mode === 'include' && rule.field === field && matches(rule))
+  );
+};
+
+const isWithinDateRange = (metadata: TuMetadata | undefined, after?: string, before?: string): boolean => {
+  if (!after && !before) return true;
+  const date = parseTmxDate(metadata?.changeDate || metadata?.creationDate);
+  // Units without a date cannot be placed in the range and are kept
+  if (!date) return true;
+  const day = date.toISOString().slice(0, 10);
+  if (after && day < after) return false;
+  if (before && day > before) return false;
+  return true;
+};
+
+const isNumericOnly = (text: string): boolean => {
+  return /^[\d\s.,:;/\\%+\-–()[\]#€$£¥]*$/.test(text);
+};
+
+const nearDuplicateKey = (text: string): string => {
+  return text.toLowerCase().replace(/[\d\p{P}\p{S}\s]+/gu, '');
+};
+
+/**
+ * Apply the filters to the translation units of one language pair
+ */
+export const filterTranslationUnits = (units: TranslationUnit[], options: TuFilterOptions): TuFilterResult => {
+  const removed: Record<TuFilterReason, number> = {
+    date: 0,
+    prop: 0,
+    length: 0,
+    numeric: 0,
+    duplicate: 0,
+    nearDuplicate: 0
+  };
+  const seenExact = new Set<string>();
+  const seenNear = new Set<string>();
+  const kept: TranslationUnit[] = [];
+
+  units.forEach(unit => {
+    if (!isWithinDateRange(unit.metadata, options.changedAfter, options.changedBefore)) {
+      removed.date++;
+      return;
+    }
+    if (!matchesPropRules(unit.metadata, options.propRules)) {
+      removed.prop++;
+      return;
+    }
+    const length = unit.source.length;
+    if ((options.minLength && length < options.minLength) || (options.maxLength && length > options.maxLength)) {
+      removed.length++;
+      return;
+    }
+    if (options.excludeNumericOnly && isNumericOnly(unit.source)) {
+      removed.numeric++;
+      return;
+    }
+    if (options.removeExactDuplicates) {
+      const key = `${unit.source}\u0000${unit.target}`;
+      if (seenExact.has(key)) {
+        removed.duplicate++;
+        return;
+      }
+      seenExact.add(key);
+    }
+    if (options.removeNearDuplicates) {
+      const key = `${nearDuplicateKey(unit.source)}\u0000${nearDuplicateKey(unit.target)}`;
+      if (seenNear.has(key)) {
+        removed.nearDuplicate++;
+        return;
+      }
+      seenNear.add(key);
+    }
+    kept.push(unit);
+  });
+
+  return { units: kept, removed };
+};
+
+/**
+ * Return a copy of the TMX data with its translation units filtered
+ */
+export const applyTuFilter = (tmxData: TmxData, options: TuFilterOptions): TmxData => {
+  if (!isFilterActive(options)) return tmxData;
+  return {
+    ...tmxData,
+    translationUnits: filterTranslationUnits(tmxData.translationUnits, options).units
+  };
+};
+
+/**
+ * Every prop type in the data with its distinct values, for building filter rules
+ */
+export const collectPropValues = (tmxData: TmxData): Record<string, string[]> => {
+  const values: Record<string, Set<string>> = {};
+  tmxData.multilingualUnits.forEach(unit => {
+    unit.metadata.props.forEach(prop => {
+      if (!prop.type) return;
+      if (!values[prop.type]) values[prop.type] = new Set();
+      values[prop.type].add(prop.value);
+    });
+  });
+  return Object.fromEntries(Object.entries(values).map(([type, set]) => [type, Array.from(set).sort()]));
+};
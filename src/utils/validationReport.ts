@@ -0,0 +1,80 @@
+/**
+ * Structured report of the problems found while reading a bilingual file
+ */
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationIssueCode =
+  | 'malformed-xml'
+  | 'missing-srclang'
+  | 'srclang-all'
+  | 'missing-lang'
+  | 'empty-segment'
+  | 'missing-source'
+  | 'single-tuv'
+  | 'no-units';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  code: ValidationIssueCode;
+  message: string;
+  // Line in the file where the problem starts
+  line?: number;
+  // 1-based position of the <tu> in the file, and its tuid when it has one
+  tuIndex?: number;
+  tuid?: string;
+}
+
+export interface ValidationReport {
+  fileName: string;
+  // The first MAX_REPORTED_ISSUES issues; counts covers all of them
+  issues: ValidationIssue[];
+  counts: Partial<Record<ValidationIssueCode, number>>;
+  errorCount: number;
+  warningCount: number;
+  // Units left out of the data because of an issue
+  skippedUnits: number;
+}
+
+export const MAX_REPORTED_ISSUES = 200;
+
+export const ISSUE_LABELS: Record<ValidationIssueCode, string> = {
+  'malformed-xml': "Malformed XML",
+  'missing-srclang': "Missing srclang",
+  'srclang-all': "srclang=\"*all*\"",
+  'missing-lang': "<tuv> without language",
+  'empty-segment': "Empty segments",
+  'missing-source': "No source segment",
+  'single-tuv': "No translation",
+  'no-units': "No usable units"
+};
+
+export const createValidationReport = (fileName: string): ValidationReport => ({
+  fileName,
+  issues: [],
+  counts: {},
+  errorCount: 0,
+  warningCount: 0,
+  skippedUnits: 0
+});
+
+/**
+ * Record an issue in a report, keeping the detailed list within MAX_REPORTED_ISSUES
+ */
+export const addValidationIssue = (report: ValidationReport, issue: ValidationIssue, skipsUnit = false) => {
+  report.counts[issue.code] = (report.counts[issue.code] || 0) + 1;
+  if (issue.severity === 'error') report.errorCount++;
+  else report.warningCount++;
+  if (skipsUnit) report.skippedUnits++;
+  if (report.issues.length < MAX_REPORTED_ISSUES) report.issues.push(issue);
+};
+
+/**
+ * Where an issue was found, e.g. "line 120, TU #14 (tuid 5531)"
+ */
+export const describeIssueLocation = (issue: ValidationIssue): string => {
+  const parts: string[] = [];
+  if (issue.line !== undefined) parts.push(`line ${issue.line}`);
+  if (issue.tuIndex !== undefined) parts.push(`TU #${issue.tuIndex}${issue.tuid ? ` (tuid ${issue.tuid})` : ""}`);
+  return parts.join(", ");
+};
@@ -0,0 +1,105 @@
+// @vitest-environment jsdom
+import { File as NodeFile } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+import { parseXliffFile } from './xliffParser';
+
+// jsdom's File has no arrayBuffer(), so the test files are Node's
+const makeFile = (content: string, name = 'strings.xlf') => new NodeFile([content], name) as unknown as File;
+
+const xliff12 = (transUnits: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file original="ui.resx" source-language="en-US" target-language="de-DE" datatype="plaintext">
+    <body>${transUnits}</body>
+  </file>
+</xliff>`;
+
+const xliff20 = (units: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en-US" trgLang="fr-FR">
+  <file id="f1">${units}</file>
+</xliff>`;
+
+describe('parseXliffFile', () => {
+  it.each([
+    [
+      '1.2 units with translate="no"',
+      xliff12(`
+        <trans-unit id="save"><source>Save</source><target state="translated">Speichern</target></trans-unit>
+        <trans-unit id="brand" translate="no"><source>Acme</source><target>Acme</target></trans-unit>`),
+      ['save']
+    ],
+    [
+      '1.2 units without a target',
+      xliff12(`
+        <trans-unit id="save"><source>Save</source><target>Speichern</target></trans-unit>
+        <trans-unit id="open"><source>Open</source></trans-unit>`),
+      ['save']
+    ],
+    [
+      '2.0 segments without a target',
+      xliff20(`
+        <unit id="save"><segment><source>Save</source><target>Enregistrer</target></segment></unit>
+        <unit id="open"><segment><source>Open</source></segment></unit>`),
+      ['save']
+    ]
+  ])('leaves out %s', async (_, content, tuids) => {
+    const data = await parseXliffFile(makeFile(content));
+
+    expect(data.translationUnits.map(unit => unit.metadata?.tuid)).toEqual(tuids);
+  });
+
+  it.each([
+    [
+      '1.2 target',
+      xliff12(`<trans-unit id="save"><source>Save</source><target state="needs-review-translation">Speichern</target></trans-unit>`),
+      'needs-review-translation'
+    ],
+    [
+      'MemoQ trans-unit',
+      xliff12(`<trans-unit id="save" mq:status="ManuallyConfirmed" xmlns:mq="MQXliff"><source>Save</source><target>Speichern</target></trans-unit>`),
+      'ManuallyConfirmed'
+    ],
+    [
+      '2.0 segment',
+      xliff20(`<unit id="save"><segment state="final"><source>Save</source><target>Enregistrer</target></segment></unit>`),
+      'final'
+    ]
+  ])('keeps the state of a %s', async (_, content, state) => {
+    const data = await parseXliffFile(makeFile(content));
+
+    expect(data.translationUnits[0].metadata?.state).toBe(state);
+  });
+
+  it('reads the languages of 1.2 files and 2.0 roots', async () => {
+    const version12 = await parseXliffFile(makeFile(xliff12(`<trans-unit id="a"><source>Save</source><target>Speichern</target></trans-unit>`)));
+    const version20 = await parseXliffFile(makeFile(xliff20(`<unit id="a"><segment><source>Save</source><target>Enregistrer</target></segment></unit>`)));
+
+    expect([version12.sourceLanguage, version12.targetLanguage]).toEqual(['en-US', 'de-DE']);
+    expect([version20.sourceLanguage, version20.targetLanguage]).toEqual(['en-US', 'fr-FR']);
+    expect(version12.translationUnits[0].metadata?.props).toEqual([{ type: 'file', value: 'ui.resx' }]);
+  });
+
+  it('numbers the segments of an SDLXLIFF unit and keeps their confirmation level', async () => {
+    const content = xliff12(`
+      <trans-unit id="p1" xmlns:sdl="http://sdl.com/FileTypes/SdlXliff/1.0">
+        <source>Open the file. Save it.</source>
+        <seg-source><mrk mtype="seg" mid="1">Open the file.</mrk> <mrk mtype="seg" mid="2">Save it.</mrk></seg-source>
+        <target><mrk mtype="seg" mid="1">Datei öffnen.</mrk> <mrk mtype="seg" mid="2">Speichern.</mrk></target>
+        <sdl:seg-defs><sdl:seg id="1" conf="Translated"/><sdl:seg id="2" conf="Draft"/></sdl:seg-defs>
+      </trans-unit>`);
+
+    const data = await parseXliffFile(makeFile(content, 'doc.sdlxliff'));
+
+    expect(data.translationUnits.map(unit => [unit.metadata?.tuid, unit.target, unit.metadata?.state])).toEqual([
+      ['p1_1', 'Datei öffnen.', 'Translated'],
+      ['p1_2', 'Speichern.', 'Draft']
+    ]);
+  });
+
+  it.each([
+    ['a root other than <xliff>', '<tmx version="1.4"><body/></tmx>', "Root element is not <xliff>"],
+    ['no translated segments', xliff12(`<trans-unit id="open"><source>Open</source></trans-unit>`), "No translated segments found in XLIFF file"],
+    ['broken XML', '<xliff version="1.2"><file>', /^Failed to parse XLIFF file\. Please ensure/]
+  ])('rejects a file with %s', async (_, content, message) => {
+    await expect(parseXliffFile(makeFile(content))).rejects.toThrow(message);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Utility functions for parsing XLIFF 1.2 (including SDLXLIFF and MQXLIFF) and XLIFF 2.x files
+ */
+import { MultilingualUnit, TmxData, TuMetadata, TuProp, buildTmxData } from './tmxParser';
+import { Segment, parseSegmentElement, segmentToPlainText } from './segmentMarkup';
+import { readFileText } from './encoding';
+import { FileContentError } from './fileParser';
+import { normalizeLanguageTag } from './languageCodes';
+
+interface XliffSegment {
+  id?: string;
+  source: Segment;
+  target: Segment | null;
+  state?: string;
+  notes: string[];
+}
+
+const childElements = (element: Element, localName: string): Element[] => {
+  return Array.from(element.children).filter(child => child.localName === localName);
+};
+
+const descendantElements = (element: Element | Document, localName: string): Element[] => {
+  return Array.from(element.querySelectorAll('*')).filter(child => child.localName === localName);
+};
+
+const readNotes = (element: Element): string[] => {
+  return childElements(element, 'note')
+    .map(note => (note.textContent || "").trim())
+    .filter(Boolean);
+};
+
+/**
+ * Segments of an XLIFF 1.2 <trans-unit>. SDLXLIFF splits units into <mrk mtype="seg"> segments
+ * whose confirmation level is kept in <sdl:seg-defs>; every other flavour has one segment per unit.
+ */
+const readTransUnitSegments = (transUnit: Element): XliffSegment[] => {
+  const notes = readNotes(transUnit);
+  const segSource = childElements(transUnit, 'seg-source')[0];
+  const target = childElements(transUnit, 'target')[0] || null;
+
+  if (segSource) {
+    const sourceMarkers = descendantElements(segSource, 'mrk').filter(mrk => mrk.getAttribute('mtype') === 'seg');
+    if (sourceMarkers.length > 0) {
+      const targetMarkers = target
+        ? descendantElements(target, 'mrk').filter(mrk => mrk.getAttribute('mtype') === 'seg')
+        : [];
+      const segmentStates = new Map<string, string>();
+      descendantElements(transUnit, 'seg')
+        .filter(seg => seg.parentElement?.localName === 'seg-defs')
+        .forEach(seg => {
+          const conf = seg.getAttribute('conf');
+          if (seg.getAttribute('id') && conf) segmentStates.set(seg.getAttribute('id') as string, conf);
+        });
+
+      return sourceMarkers.map(sourceMarker => {
+        const mid = sourceMarker.getAttribute('mid') || "";
+        const targetMarker = targetMarkers.find(marker => marker.getAttribute('mid') === mid);
+        return {
+          id: mid,
+          source: parseSegmentElement(sourceMarker),
+          target: targetMarker ? parseSegmentElement(targetMarker) : null,
+          state: segmentStates.get(mid) || target?.getAttribute('state') || undefined,
+          notes
+        };
+      });
+    }
+  }
+
+  const source = childElements(transUnit, 'source')[0];
+  if (!source) return [];
+
+  return [{
+    source: parseSegmentElement(source),
+    target: target ? parseSegmentElement(target) : null,
+    // MemoQ keeps its own status on the trans-unit
+    state: target?.getAttribute('state') || transUnit.getAttribute('mq:status') || undefined,
+    notes
+  }];
+};
+
+/**
+ * Segments of an XLIFF 2.x <unit>; <ignorable> content between segments is skipped
+ */
+const readUnitSegments = (unit: Element): XliffSegment[] => {
+  const notesElement = childElements(unit, 'notes')[0];
+  const notes = notesElement ? readNotes(notesElement) : [];
+
+  return childElements(unit, 'segment').flatMap(segment => {
+    const source = childElements(segment, 'source')[0];
+    if (!source) return [];
+    const target = childElements(segment, 'target')[0];
+    return [{
+      id: segment.getAttribute('id') || undefined,
+      source: parseSegmentElement(source),
+      target: target ? parseSegmentElement(target) : null,
+      state: segment.getAttribute('state') || undefined,
+      notes
+    }];
+  });
+};
+
+/**
+ * Parse an XLIFF file into the same structure as a TMX file
+ */
+export const parseXliffFile = async (file: File, encoding?: string): Promise<TmxData> => {
+  try {
+    const fileContent = await readFileText(file, encoding);
+    console.log("XLIFF file content loaded, size:", fileContent.length);
+
+    const xmlDoc = new DOMParser().parseFromString(fileContent, "text/xml");
+    const parserError = xmlDoc.querySelector("parsererror");
+    if (parserError) {
+      console.error("XML parse error:", parserError.textContent);
+      throw new Error("Invalid XML format in XLIFF file");
+    }
+
+    const root = xmlDoc.documentElement;
+    if (root.localName !== 'xliff') {
+      throw new FileContentError("Root element is not <xliff>");
+    }
+
+    const version = root.getAttribute('version') || "1.2";
+    const isVersion2 = version.startsWith('2');
+    console.log("XLIFF version:", version);
+
+    // XLIFF 2 declares the languages once on the root, 1.2 on each <file>
+    let sourceLanguage = isVersion2 ? normalizeLanguageTag(root.getAttribute('srcLang') || "") : "";
+    const targetLanguages: string[] = [];
+    const multilingualUnits: MultilingualUnit[] = [];
+
+    childElements(root, 'file').forEach(fileElement => {
+      const fileSource = isVersion2 ? sourceLanguage : normalizeLanguageTag(fileElement.getAttribute('source-language') || "");
+      const fileTarget = normalizeLanguageTag(
+        (isVersion2 ? root.getAttribute('trgLang') : fileElement.getAttribute('target-language')) || ""
+      );
+      const original = fileElement.getAttribute('original') || fileElement.getAttribute('id') || "";
+
+      if (!sourceLanguage) sourceLanguage = fileSource;
+      if (!fileSource || !fileTarget) {
+        console.warn("Skipping <file> without source or target language:", original);
+        return;
+      }
+      if (fileSource !== sourceLanguage) {
+        console.warn(`Skipping <file> "${original}" with source language ${fileSource} (expected ${sourceLanguage})`);
+        return;
+      }
+      if (!targetLanguages.includes(fileTarget)) {
+        targetLanguages.push(fileTarget);
+        console.log("Target language detected:", fileTarget);
+      }
+
+      const units = isVersion2
+        ? descendantElements(fileElement, 'unit')
+        : descendantElements(fileElement, 'trans-unit').filter(unit => unit.getAttribute('translate') !== 'no');
+
+      units.forEach(unit => {
+        const unitId = unit.getAttribute('id') || "";
+        const segments = isVersion2 ? readUnitSegments(unit) : readTransUnitSegments(unit);
+
+        segments.forEach(segment => {
+          if (!segment.target) return;
+          const sourceText = segmentToPlainText(segment.source);
+          const targetText = segmentToPlainText(segment.target);
+          if (!sourceText || !targetText) return;
+
+          const props: TuProp[] = original ? [{ type: 'file', value: original }] : [];
+          const metadata: TuMetadata = {
+            tuid: segments.length > 1 && segment.id ? `${unitId}_${segment.id}` : unitId || undefined,
+            state: segment.state,
+            props,
+            notes: segment.notes
+          };
+
+          multilingualUnits.push({
+            segments: { [fileSource]: sourceText, [fileTarget]: targetText },
+            taggedSegments: { [fileSource]: segment.source, [fileTarget]: segment.target },
+            metadata
+          });
+        });
+      });
+    });
+
+    if (!sourceLanguage) {
+      throw new FileContentError("Source language not found in XLIFF file");
+    }
+
+    if (targetLanguages.length === 0) {
+      throw new FileContentError("Target language not found in XLIFF file");
+    }
+
+    if (multilingualUnits.length === 0) {
+      throw new FileContentError("No translated segments found in XLIFF file");
+    }
+
+    console.log("XLIFF parsing completed successfully:", {
+      sourceLanguage,
+      targetLanguages,
+      translationUnits: multilingualUnits.length
+    });
+
+    return buildTmxData(sourceLanguage, targetLanguages, multilingualUnits);
+  } catch (error) {
+    console.error('Error parsing XLIFF file:', error);
+    if (error instanceof FileContentError) throw error;
+    throw new Error('Failed to parse XLIFF file. Please ensure it is a valid XLIFF 1.2 or 2.x file, or choose its encoding manually if the text is garbled.');
+  }
+};
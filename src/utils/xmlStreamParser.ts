@@ -0,0 +1,225 @@
+/**
+ * Incremental SAX-style XML parser for documents too large to load into a DOM
+ */
+
+export interface XmlStreamHandlers {
+  onOpenTag?: (name: string, attributes: Record<string, string>, line: number) => void;
+  onCloseTag?: (name: string, line: number) => void;
+  onText?: (text: string, line: number) => void;
+}
+
+export interface XmlStreamParser {
+  // Feed the next piece of the document; pieces may split tokens anywhere
+  write: (text: string) => void;
+  // Signal the end of the document and flush any pending text
+  close: () => void;
+}
+
+/**
+ * Markup that is not well-formed, with the line it was found on
+ */
+export class XmlSyntaxError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(message);
+    this.name = 'XmlSyntaxError';
+    this.line = line;
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+export const decodeXmlEntities = (text: string): string => {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isNaN(codePoint) ? match : String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+};
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+};
+
+const countNewlines = (text: string, start: number, end: number): number => {
+  let count = 0;
+  for (let i = start; i < end; i++) {
+    if (text.charCodeAt(i) === 10) count++;
+  }
+  return count;
+};
+
+/**
+ * Find the ">" that ends a tag, skipping any inside quoted attribute values
+ */
+const findTagEnd = (text: string, from: number): number => {
+  let quote = '';
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Create a parser that reports tags and text as the document is written to it.
+ * Malformed markup throws an XmlSyntaxError naming the line it was found on.
+ */
+export const createXmlStreamParser = (handlers: XmlStreamHandlers): XmlStreamParser => {
+  let buffer = "";
+  let line = 1;
+  const openElements: string[] = [];
+
+  const emitText = (text: string, textLine: number) => {
+    if (text && handlers.onText) {
+      handlers.onText(decodeXmlEntities(text), textLine);
+    }
+  };
+
+  const openTag = (source: string, tagLine: number) => {
+    const selfClosing = source.endsWith('/');
+    const body = selfClosing ? source.slice(0, -1) : source;
+    const nameMatch = body.match(/^[^\s/>]+/);
+    if (!nameMatch) {
+      throw new XmlSyntaxError(`Malformed XML: invalid tag at line ${tagLine}`, tagLine);
+    }
+    const name = nameMatch[0];
+    handlers.onOpenTag?.(name, parseAttributes(body.slice(name.length)), tagLine);
+    if (selfClosing) {
+      handlers.onCloseTag?.(name, tagLine);
+    } else {
+      openElements.push(name);
+    }
+  };
+
+  const closeTag = (source: string, tagLine: number) => {
+    const name = source.trim();
+    const expected = openElements.pop();
+    if (expected !== name) {
+      throw new XmlSyntaxError(
+        expected
+          ? `Malformed XML: expected </${expected}> but found </${name}> at line ${tagLine}`
+          : `Malformed XML: unexpected </${name}> at line ${tagLine}`,
+        tagLine
+      );
+    }
+    handlers.onCloseTag?.(name, tagLine);
+  };
+
+  // Consume as many complete tokens as the buffer holds; returns false when more input is needed
+  const parse = (isFinal: boolean) => {
+    let position = 0;
+
+    const advance = (to: number) => {
+      line += countNewlines(buffer, position, to);
+      position = to;
+    };
+
+    while (position < buffer.length) {
+      const tagStart = buffer.indexOf('<', position);
+
+      if (tagStart === -1) {
+        // Hold back a trailing entity that may continue in the next piece
+        let end = buffer.length;
+        const ampersand = buffer.lastIndexOf('&');
+        if (!isFinal && ampersand >= position && buffer.indexOf(';', ampersand) === -1) {
+          end = ampersand;
+        }
+        const textLine = line;
+        const text = buffer.slice(position, end);
+        advance(end);
+        emitText(text, textLine);
+        break;
+      }
+
+      if (tagStart > position) {
+        const textLine = line;
+        const text = buffer.slice(position, tagStart);
+        advance(tagStart);
+        emitText(text, textLine);
+      }
+
+      const tagLine = line;
+
+      if (buffer.startsWith('<!--', tagStart)) {
+        const end = buffer.indexOf('-->', tagStart + 4);
+        if (end === -1) break;
+        advance(end + 3);
+      } else if (buffer.startsWith('<![CDATA[', tagStart)) {
+        const end = buffer.indexOf(']]>', tagStart + 9);
+        if (end === -1) break;
+        const text = buffer.slice(tagStart + 9, end);
+        advance(end + 3);
+        if (text && handlers.onText) handlers.onText(text, tagLine);
+      } else if (buffer.startsWith('<?', tagStart)) {
+        const end = buffer.indexOf('?>', tagStart + 2);
+        if (end === -1) break;
+        advance(end + 2);
+      } else if (buffer.startsWith('<!', tagStart)) {
+        // DOCTYPE, possibly with an internal subset in brackets
+        const bracket = buffer.indexOf('[', tagStart);
+        const firstClose = buffer.indexOf('>', tagStart);
+        let end = firstClose;
+        if (bracket !== -1 && (firstClose === -1 || bracket < firstClose)) {
+          const subsetEnd = buffer.indexOf(']', bracket);
+          end = subsetEnd === -1 ? -1 : buffer.indexOf('>', subsetEnd);
+        }
+        if (end === -1) break;
+        advance(end + 1);
+      } else {
+        const end = findTagEnd(buffer, tagStart + 1);
+        if (end === -1) break;
+        const source = buffer.slice(tagStart + 1, end);
+        advance(end + 1);
+        if (source.startsWith('/')) {
+          closeTag(source.slice(1), tagLine);
+        } else {
+          openTag(source.trim(), tagLine);
+        }
+      }
+    }
+
+    buffer = buffer.slice(position);
+  };
+
+  return {
+    write: (text: string) => {
+      buffer += text;
+      parse(false);
+    },
+    close: () => {
+      parse(true);
+      if (buffer.length > 0) {
+        throw new XmlSyntaxError(`Malformed XML: unterminated markup at line ${line}`, line);
+      }
+      if (openElements.length > 0) {
+        throw new XmlSyntaxError(`Malformed XML: <${openElements[openElements.length - 1]}> is never closed (end of file at line ${line})`, line);
+      }
+    }
+  };
+};